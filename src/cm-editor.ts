@@ -1,14 +1,52 @@
 import type { Locator } from '@playwright/test';
 import type {
+  ClickAtOptions,
+  ClickLineNumberOptions,
   CMEditorOptions,
   CMEditorSource,
+  CompletionOption,
+  DocumentPosition,
+  DocumentRange,
+  DragSelectOptions,
+  EditOptions,
+  EditorQuery,
+  EditorSelectionInfo,
+  EditorSnapshotOptions,
   ExtensionDefinition,
+  ExtensionKey,
+  ExtensionName,
+  ExtensionRegistry,
+  FindEditorOptions,
+  FoldedRange,
+  HoverOptions,
+  LineMatch,
+  LineRange,
+  LineScanOptions,
+  LintDiagnostic,
   PartialScrollPosition,
+  PerformanceReport,
+  RecordScrollOptions,
   ScrollDimensions,
   ScrollPosition,
+  ScrollToColumnOptions,
   ScrollToLineOptions,
   ScrollToOptions,
+  ScrollToPositionOptions,
+  ScrollToTextOptions,
+  ScrollTrace,
+  SearchMatch,
+  SearchOptions,
+  SelectionRangeSpec,
+  SetSelectionOptions,
+  SetStateOptions,
+  StateNotationOptions,
+  SyntaxNodeInfo,
+  SyntaxNodeOptions,
+  TokenSpan,
+  TooltipInfo,
   ViewportLineInfo,
+  WaitForCompletionOptions,
+  WaitForLintIdleOptions,
 } from './types.js';
 import { extensionRegistry, ExtensionRegistryManager } from './extensions.js';
 import {
@@ -16,9 +54,13 @@ import {
   getScrollDimensions,
   scrollTo as scrollToHelper,
   scrollBy as scrollByHelper,
+  scrollToColumn as scrollToColumnHelper,
   scrollToLine as scrollToLineHelper,
+  scrollToPosition as scrollToPositionHelper,
   waitForScrollIdle as waitForScrollIdleHelper,
 } from './scroll.js';
+import { recordScroll as recordScrollHelper } from './scroll-trace.js';
+import { measurePerformance } from './performance.js';
 import {
   getLinesInViewport,
   isLineRendered as isLineRenderedHelper,
@@ -28,8 +70,55 @@ import {
 } from './viewport.js';
 import {
   scrollToLineAndLocate as scrollToLineAndLocateHelper,
+  scrollToTextAndLocate as scrollToTextAndLocateHelper,
   getFirstVisibleLine,
 } from './locators.js';
+import { findLines, getDocumentText, getLineText, getTextInRange } from './document.js';
+import {
+  setText as setTextHelper,
+  insertAt as insertAtHelper,
+  replaceRange as replaceRangeHelper,
+  deleteLines as deleteLinesHelper,
+} from './editing.js';
+import { getSelection, setSelection as setSelectionHelper } from './selection.js';
+import { formatStateNotation, getState, setState as setStateHelper } from './state-notation.js';
+import {
+  getFoldedRanges,
+  foldLines as foldLinesHelper,
+  unfoldAll as unfoldAllHelper,
+  clickFoldGutter as clickFoldGutterHelper,
+} from './folding.js';
+import {
+  getLintDiagnostics,
+  getLintGutterMarker,
+  waitForLintIdle as waitForLintIdleHelper,
+} from './lint.js';
+import {
+  searchPanel,
+  openSearchPanel as openSearchPanelHelper,
+  closeSearchPanel as closeSearchPanelHelper,
+  searchFor as searchForHelper,
+  getSearchMatches,
+  clickSearchButton,
+} from './search.js';
+import {
+  completionTooltip,
+  triggerCompletion as triggerCompletionHelper,
+  getCompletionOptions,
+  selectCompletion as selectCompletionHelper,
+  acceptCompletion as acceptCompletionHelper,
+  waitForCompletionSettled,
+} from './completion.js';
+import { hoverAt as hoverAtHelper, getTooltips } from './hover.js';
+import {
+  clickAt as clickAtHelper,
+  clickLineNumber as clickLineNumberHelper,
+  dragSelect as dragSelectHelper,
+} from './mouse.js';
+import { getTokensOnLine, getSyntaxNodeAt } from './syntax.js';
+import { getLinesWithSelector } from './extension-lines.js';
+import { serializeEditor } from './snapshot.js';
+import { findEditorView } from './editors.js';
 import { withStep } from './tracing.js';
 
 /**
@@ -49,19 +138,30 @@ import { withStep } from './tracing.js';
  * await expect(editor.view).toBeVisible();
  * await editor.scrollTo({ scrollTop: 200 });
  * ```
+ *
+ * The type parameter `R` is the shape of the editor's extension registry. It defaults to
+ * an untyped registry; editors created through `defineExtensions()` get a typed `ext()`.
  */
-export class CMEditor {
+export class CMEditor<R extends ExtensionRegistry = ExtensionRegistry> {
   private readonly source: CMEditorSource;
-  private readonly options: CMEditorOptions;
-  private readonly registry: ExtensionRegistryManager;
+  private readonly options: CMEditorOptions<R>;
+  private readonly registry: ExtensionRegistryManager<R>;
+  /** `.cm-editor` locator for editors found by identity (see `find()`) */
+  private readonly viewLocator: Locator | undefined;
 
   /** Global extension registry used when no custom registry is provided */
   private static globalRegistry = extensionRegistry;
 
-  private constructor(source: CMEditorSource, options: CMEditorOptions = {}) {
+  private constructor(
+    source: CMEditorSource,
+    options: CMEditorOptions<R> = {},
+    viewLocator?: Locator
+  ) {
     this.source = source;
     this.options = { nth: 0, ...options };
-    this.registry = options.registry ?? CMEditor.globalRegistry;
+    // The global registry is untyped, so it accepts any extension name and key
+    this.registry = options.registry ?? (CMEditor.globalRegistry as ExtensionRegistryManager<R>);
+    this.viewLocator = viewLocator;
   }
 
   /**
@@ -81,10 +181,70 @@ export class CMEditor {
    *
    * // Editor within a specific container
    * const editor = CMEditor.from(page.locator('#my-container'));
+   *
+   * // Editor with a typed registry (ext() names and keys are checked at compile time)
+   * const editor = CMEditor.from(page, { registry: extensions.registry });
+   * ```
+   */
+  static from<R extends ExtensionRegistry = ExtensionRegistry>(
+    source: CMEditorSource,
+    options: CMEditorOptions<R> = {}
+  ): CMEditor<R> {
+    return new CMEditor<R>(source, options);
+  }
+
+  /**
+   * Create one CMEditor per `.cm-editor` currently in a Page or Locator, in DOM order.
+   *
+   * @param source - Playwright Page or Locator to search within
+   * @param options - Options shared by the editors (without nth)
+   * @returns A CMEditor for each editor
+   *
+   * @example
+   * ```typescript
+   * const editors = await CMEditor.all(page);
+   * for (const editor of editors) {
+   *   await expect(editor).toHaveDocumentLineCount(100);
+   * }
+   * ```
+   */
+  static async all<R extends ExtensionRegistry = ExtensionRegistry>(
+    source: CMEditorSource,
+    options: Omit<CMEditorOptions<R>, 'nth'> = {}
+  ): Promise<CMEditor<R>[]> {
+    const count = await source.locator('.cm-editor').count();
+    return Array.from({ length: count }, (_, nth) => new CMEditor<R>(source, { ...options, nth }));
+  }
+
+  /**
+   * Find a single editor by identity instead of by index: its accessible label, the ID
+   * of its host container, or text in its document. All given criteria must match.
+   *
+   * Waits up to `timeout` for a match and throws if no editor or several editors match.
+   * Editors found by label or host stay lazy locators, so they keep working when the
+   * layout changes; text matches are resolved once, when `find()` is called.
+   *
+   * @param source - Playwright Page or Locator to search within
+   * @param query - Label, host ID and/or document text of the editor
+   * @param options - Editor options (registry) and timeout
+   * @returns The matching CMEditor
+   * @throws Error if no editor or more than one editor matches
+   *
+   * @example
+   * ```typescript
+   * const main = await CMEditor.find(page, { label: 'main.ts' });
+   * const left = await CMEditor.find(page, { hostId: 'left-pane' });
+   * const code = await CMEditor.find(page, { containingText: 'export function' });
    * ```
    */
-  static from(source: CMEditorSource, options: CMEditorOptions = {}): CMEditor {
-    return new CMEditor(source, options);
+  static async find<R extends ExtensionRegistry = ExtensionRegistry>(
+    source: CMEditorSource,
+    query: EditorQuery,
+    options: FindEditorOptions<R> = {}
+  ): Promise<CMEditor<R>> {
+    const { timeout, ...editorOptions } = options;
+    const view = await withStep('Find editor', () => findEditorView(source, query, timeout));
+    return new CMEditor<R>(source, editorOptions, view);
   }
 
   /**
@@ -151,6 +311,7 @@ export class CMEditor {
    * Locator for the root `.cm-editor` element (the "view").
    */
   get view(): Locator {
+    if (this.viewLocator) return this.viewLocator;
     const nth = this.options.nth ?? 0;
     return this.source.locator('.cm-editor').nth(nth);
   }
@@ -177,6 +338,20 @@ export class CMEditor {
     return this.view.locator('.cm-gutters');
   }
 
+  /**
+   * Locator for the `@codemirror/search` panel (`.cm-panel.cm-search`).
+   */
+  get searchPanel(): Locator {
+    return searchPanel(this.view);
+  }
+
+  /**
+   * Locator for the `@codemirror/autocomplete` tooltip (`.cm-tooltip-autocomplete`).
+   */
+  get completionTooltip(): Locator {
+    return completionTooltip(this.view);
+  }
+
   /**
    * Locator for all `.cm-line` elements currently in the DOM.
    *
@@ -218,7 +393,8 @@ export class CMEditor {
    * Locator for a line in DOM containing specific text.
    *
    * ⚠️ Only searches lines currently in the DOM (including off-screen anchors).
-   * For large files, most lines are virtualized and won't be found.
+   * For large files, most lines are virtualized and won't be found; use
+   * `findLines()` or `scrollToTextAndLocate()` to search the whole document.
    *
    * @param text - Text to search for (string or RegExp)
    * @returns Locator for the first matching line
@@ -233,30 +409,68 @@ export class CMEditor {
   }
 
   /**
-   * Locator for elements with an extension class.
+   * Locator for the elements of an extension entry.
+   *
+   * The entry can be a class name, a full selector, or an element description
+   * (`{ class, attrs, scope }`) whose scope limits matches to lines, marks inside
+   * lines, widgets or gutters.
+   *
+   * With a typed registry (see `defineExtensions()`), only registered names and
+   * keys compile.
    *
    * @param extensionName - Name of the registered extension
    * @param key - Key within the extension
-   * @returns Locator for elements with the extension class
+   * @returns Locator for the elements matching the entry
    *
    * @example
    * ```typescript
    * CMEditor.registerExtension('diff', {
    *   lineAddition: 'cm-diff-line-addition',
+   *   changedLine: { attrs: { 'data-change': true }, scope: 'line' },
    * });
    * await expect(editor.ext('diff', 'lineAddition')).toHaveCount(5);
    * ```
    */
-  ext(extensionName: string, key: string): Locator {
-    const className = this.registry.getClass(extensionName, key);
-    return this.view.locator(`.${className}`);
+  ext<N extends ExtensionName<R>>(extensionName: N, key: ExtensionKey<R, N>): Locator {
+    return this.view.locator(this.registry.getSelector(extensionName, key));
+  }
+
+  /**
+   * Get the document lines carrying an extension entry, across the whole document.
+   *
+   * Unlike `ext()`, which only sees elements currently in the DOM, this scans the
+   * document chunk by chunk so decorations built for the viewport are found on every
+   * line. The scroll position is restored afterwards.
+   *
+   * @param extensionName - Name of the registered extension
+   * @param key - Key within the extension
+   * @param options - Scan timeout
+   * @returns Ranges of consecutive lines with the entry (1-based, sorted)
+   * @throws Error if the editor can't scroll through the document (auto-height editors)
+   * or the scan times out
+   *
+   * @example
+   * ```typescript
+   * const additions = await editor.linesWithExt('diff', 'lineAddition');
+   * // [{ first: 5, last: 7 }, { first: 2400, last: 2410 }]
+   * ```
+   */
+  async linesWithExt<N extends ExtensionName<R>>(
+    extensionName: N,
+    key: ExtensionKey<R, N>,
+    options: LineScanOptions = {}
+  ): Promise<LineRange[]> {
+    const selector = this.registry.getSelector(extensionName, key);
+    return withStep(`Find lines with extension "${extensionName}.${key}"`, () =>
+      getLinesWithSelector(this.view, selector, options)
+    );
   }
 
   /**
    * Get the extension registry used by this editor instance.
    * Useful for registering extensions on an isolated registry.
    */
-  getRegistry(): ExtensionRegistryManager {
+  getRegistry(): ExtensionRegistryManager<R> {
     return this.registry;
   }
 
@@ -292,8 +506,9 @@ export class CMEditor {
    * ⚠️ This method has side effects (scrolling). For queries without
    * side effects, use `isLineRendered()` or `isLineVisible()`.
    *
-   * Uses the line number gutter to find the correct line after scrolling,
-   * since virtual rendering means line N isn't at DOM index N-1.
+   * Resolves rendered lines to document lines (via `posAtDOM`, so no line number
+   * gutter is needed) to find the correct line after scrolling, since virtual
+   * rendering means line N isn't at DOM index N-1.
    *
    * @param lineNumber - 1-based line number
    * @param options - Scroll and wait options
@@ -317,6 +532,36 @@ export class CMEditor {
     );
   }
 
+  /**
+   * Find the line containing a text or pattern anywhere in the document, scroll it
+   * into view and return its locator.
+   *
+   * Unlike `lineInDOMContaining()`, this searches CodeMirror's state, so it finds lines
+   * that aren't rendered. Use `nth` to pick a later matching line (a line with several
+   * matches counts once).
+   *
+   * @param query - Text or pattern the line contains
+   * @param options - Which match (nth), scroll position and wait timeout
+   * @returns Promise resolving to a Locator for the matching line
+   * @throws Error if the text isn't in the document or `nth` is out of range
+   *
+   * @example
+   * ```typescript
+   * const line = await editor.scrollToTextAndLocate('export function main');
+   * await expect(line).toBeVisible();
+   *
+   * const second = await editor.scrollToTextAndLocate(/TODO/, { nth: 1, position: 'center' });
+   * ```
+   */
+  async scrollToTextAndLocate(
+    query: string | RegExp,
+    options: ScrollToTextOptions = {}
+  ): Promise<Locator> {
+    return withStep(`Scroll to text and locate "${query}"`, () =>
+      scrollToTextAndLocateHelper(this.view, this.linesInDOM, query, options)
+    );
+  }
+
   /**
    * Get the total number of lines in the document.
    * Uses CodeMirror's internal state for accurate count regardless of virtual rendering.
@@ -334,202 +579,1099 @@ export class CMEditor {
   }
 
   // ============================================================
-  // Scroll Methods - Operate on .cm-scroller
+  // Document Methods - Read from CodeMirror state (no scrolling)
   // ============================================================
 
   /**
-   * Get the current scroll position of the editor.
+   * Get the full document text.
+   * Reads from CodeMirror's state, so it includes lines that are not rendered.
    *
-   * @returns Promise resolving to { scrollTop, scrollLeft }
+   * @returns Promise resolving to the document text (lines joined with `\n`)
+   * @throws Error if the CodeMirror view is not available
+   *
+   * @example
+   * ```typescript
+   * const text = await editor.text();
+   * expect(text).toContain('export function');
+   * ```
    */
-  async scrollPosition(): Promise<ScrollPosition> {
-    return withStep('Get scroll position', () => getScrollPosition(this.scroller));
+  async text(): Promise<string> {
+    return withStep('Get document text', () => getDocumentText(this.view));
   }
 
   /**
-   * Get the scroll dimensions of the editor.
+   * Get the text of a document line, without its line break.
+   * Works for any line, including virtualized ones.
    *
-   * @returns Promise resolving to scroll dimensions
+   * @param lineNumber - 1-based line number
+   * @returns Promise resolving to the line text
+   * @throws Error if the line number is out of range
+   *
+   * @example
+   * ```typescript
+   * const line = await editor.lineText(4200);
+   * expect(line).toBe('// Line 4200');
+   * ```
    */
-  async scrollDimensions(): Promise<ScrollDimensions> {
-    return withStep('Get scroll dimensions', () => getScrollDimensions(this.scroller));
+  async lineText(lineNumber: number): Promise<string> {
+    return withStep(`Get line text "${lineNumber}"`, () => getLineText(this.view, lineNumber));
   }
 
   /**
-   * Set the scroll position of the editor.
+   * Get the document text between two offsets.
    *
-   * @param position - Target scroll position (partial - only set what's specified)
-   * @param options - Options for scroll behavior
+   * @param range - 0-based document offsets (`to` is exclusive)
+   * @returns Promise resolving to the text in the range
+   * @throws Error if the range is invalid or out of bounds
    *
    * @example
    * ```typescript
-   * await editor.scrollTo({ scrollTop: 200 });
-   * await editor.scrollTo({ scrollTop: 0, scrollLeft: 0 });
-   * await editor.scrollTo({ scrollTop: 500 }, { waitForIdle: false }); // Don't wait
+   * const word = await editor.textInRange({ from: 0, to: 6 });
    * ```
    */
-  async scrollTo(
-    position: PartialScrollPosition,
-    options: ScrollToOptions = {}
+  async textInRange(range: DocumentRange): Promise<string> {
+    return withStep(`Get text in range "${range.from}-${range.to}"`, () =>
+      getTextInRange(this.view, range)
+    );
+  }
+
+  /**
+   * Find every match of a text or pattern in the whole document, line by line.
+   * Searches CodeMirror's state, so lines outside the viewport are included.
+   * Matches don't span line breaks or overlap; a RegExp finds every match on a line.
+   *
+   * @param query - Text or pattern to search for
+   * @returns Matches in document order, with line, column, offsets and the line's text
+   *
+   * @example
+   * ```typescript
+   * const matches = await editor.findLines('export function');
+   * // [{ line: 4200, col: 0, from: 81234, to: 81249, text: 'export function', lineText: '...' }]
+   * ```
+   */
+  async findLines(query: string | RegExp): Promise<LineMatch[]> {
+    return withStep(`Find lines "${query}"`, () => findLines(this.view, query));
+  }
+
+  // ============================================================
+  // Editing Methods - Dispatch CodeMirror transactions
+  // ============================================================
+
+  /**
+   * Replace the whole document text.
+   * Dispatches a real transaction, so update listeners and transaction filters run.
+   *
+   * @param text - New document text
+   * @param options - Edit options (`userEvent` annotation)
+   *
+   * @example
+   * ```typescript
+   * await editor.setText('const a = 1;\n');
+   * await editor.setText('', { userEvent: 'delete' });
+   * ```
+   */
+  async setText(text: string, options: EditOptions = {}): Promise<void> {
+    return withStep('Set document text', () => setTextHelper(this.view, text, options));
+  }
+
+  /**
+   * Insert text at a line/column position.
+   *
+   * @param position - 1-based line and 0-based column
+   * @param text - Text to insert
+   * @param options - Edit options (`userEvent` annotation)
+   * @throws Error if the position is outside the document
+   *
+   * @example
+   * ```typescript
+   * await editor.insertAt({ line: 3, col: 0 }, '// TODO\n', { userEvent: 'input.type' });
+   * ```
+   */
+  async insertAt(
+    position: DocumentPosition,
+    text: string,
+    options: EditOptions = {}
   ): Promise<void> {
-    const posStr = [position.scrollTop, position.scrollLeft].filter((v) => v !== undefined).join(', ');
-    return withStep(`Scroll to "${posStr}"`, () =>
-      scrollToHelper(this.scroller, position, options)
+    return withStep(`Insert text at "${position.line}:${position.col}"`, () =>
+      insertAtHelper(this.view, position, text, options)
     );
   }
 
   /**
-   * Wait for scroll position to stabilize.
-   * Useful after programmatic scrolling or when testing scroll behavior.
+   * Replace the text between two offsets.
    *
-   * @param timeout - Maximum time to wait in milliseconds (default: 1000)
+   * @param range - 0-based document offsets (`to` is exclusive)
+   * @param text - Replacement text
+   * @param options - Edit options (`userEvent` annotation)
+   * @throws Error if the range is invalid or out of bounds
    *
    * @example
    * ```typescript
-   * await editor.scrollTo({ scrollTop: 500 }, { waitForIdle: false });
-   * // ... do something else ...
-   * await editor.waitForScrollIdle();
+   * await editor.replaceRange({ from: 0, to: 5 }, 'let', { userEvent: 'input.replace' });
    * ```
    */
-  async waitForScrollIdle(timeout = 1000): Promise<void> {
-    return withStep('Wait for scroll idle', () =>
-      waitForScrollIdleHelper(this.scroller, timeout)
+  async replaceRange(
+    range: DocumentRange,
+    text: string,
+    options: EditOptions = {}
+  ): Promise<void> {
+    return withStep(`Replace range "${range.from}-${range.to}"`, () =>
+      replaceRangeHelper(this.view, range, text, options)
     );
   }
 
   /**
-   * Scroll by a relative amount.
+   * Delete whole lines, including their line breaks.
    *
-   * @param delta - Amount to scroll (partial - only scroll axes specified)
+   * @param firstLine - 1-based first line to delete
+   * @param lastLine - 1-based last line to delete (inclusive, default: `firstLine`)
+   * @param options - Edit options (`userEvent` annotation)
+   * @throws Error if the lines are outside the document
    *
    * @example
    * ```typescript
-   * await editor.scrollBy({ scrollTop: 100 }); // Scroll down 100px
-   * await editor.scrollBy({ scrollTop: -50 }); // Scroll up 50px
+   * await editor.deleteLines(10, 20, { userEvent: 'delete' });
    * ```
    */
-  async scrollBy(delta: PartialScrollPosition): Promise<void> {
-    const deltaStr = [delta.scrollTop, delta.scrollLeft].filter((v) => v !== undefined).join(', ');
-    return withStep(`Scroll by "${deltaStr}"`, () => scrollByHelper(this.scroller, delta));
+  async deleteLines(
+    firstLine: number,
+    lastLine: number = firstLine,
+    options: EditOptions = {}
+  ): Promise<void> {
+    return withStep(`Delete lines "${firstLine}-${lastLine}"`, () =>
+      deleteLinesHelper(this.view, firstLine, lastLine, options)
+    );
   }
 
+  // ============================================================
+  // Selection Methods - Read and set CodeMirror's EditorSelection
+  // ============================================================
+
   /**
-   * Scroll a specific line into view.
-   * Uses CodeMirror's 1-based line numbering.
+   * Get the editor selection: every range with its anchor and head, as offsets
+   * and as line/column positions, plus the index of the main range.
    *
-   * Uses CodeMirror's internal geometry when available for accurate positioning
-   * that accounts for wrapped lines, folded regions, and variable-height decorations.
-   * Falls back to uniform height estimation if cmView is unavailable.
+   * @returns Promise resolving to the selection info
    *
-   * @param lineNumber - 1-based line number to scroll into view
-   * @param options - Scroll options including position
+   * @example
+   * ```typescript
+   * const { ranges, mainIndex } = await editor.selection();
+   * console.log(`Cursor at ${ranges[mainIndex].headPosition.line}:${ranges[mainIndex].headPosition.col}`);
+   * ```
+   */
+  async selection(): Promise<EditorSelectionInfo> {
+    return withStep('Get selection', () => getSelection(this.view));
+  }
+
+  /**
+   * Replace the selection with one or more ranges.
+   * Points may be offsets or `{ line, col }` positions; omit `head` for a cursor.
+   *
+   * ⚠️ Multiple ranges are only kept if the editor enables
+   * `EditorState.allowMultipleSelections`; otherwise CodeMirror keeps the main range.
+   *
+   * @param ranges - A range or an array of ranges
+   * @param options - Main range index, `userEvent` annotation, and whether to focus
+   * @throws Error if a point is outside the document
    *
    * @example
    * ```typescript
-   * await editor.scrollToLine(50);                          // Line at top
-   * await editor.scrollToLine(50, { position: 'center' });  // Line centered
-   * await editor.scrollToLine(50, { position: 'bottom' });  // Line at bottom
-   * await editor.scrollToLine(50, { position: 0.25 });      // Line at 25% from top
+   * await editor.setSelection({ anchor: { line: 3, col: 0 } });           // cursor
+   * await editor.setSelection({ anchor: 0, head: 10 });                    // range
+   * await editor.setSelection([{ anchor: 5 }, { anchor: 20 }], { mainIndex: 1 }); // multi-cursor
    * ```
    */
-  async scrollToLine(
-    lineNumber: number,
-    options: ScrollToLineOptions = {}
+  async setSelection(
+    ranges: SelectionRangeSpec | SelectionRangeSpec[],
+    options: SetSelectionOptions = {}
   ): Promise<void> {
-    return withStep(`Scroll to line "${lineNumber}"`, () =>
-      scrollToLineHelper(this.view, lineNumber, options)
+    const count = Array.isArray(ranges) ? ranges.length : 1;
+    return withStep(`Set selection "${count} range(s)"`, () =>
+      setSelectionHelper(this.view, ranges, options)
     );
   }
 
+  /**
+   * Replace the document and selection in one transaction, from a string with
+   * inline markers: `|` is a cursor, and a selection runs from its anchor `<` to
+   * its head `>` (so `>text<` is a backward selection).
+   *
+   * Without markers the cursor goes to the document start. Several cursors or
+   * selections need `EditorState.allowMultipleSelections`; the first one is the main range.
+   *
+   * @param notation - Document text with selection markers
+   * @param options - Custom markers, `userEvent` annotation, and whether to focus
+   * @throws Error if the markers are unbalanced
+   *
+   * @example
+   * ```typescript
+   * await editor.setState('function f() {|}');
+   * await editor.setState('const <value> = 1;', { focus: true });
+   * await editor.setState('a [< b] ^', { markers: { anchor: '[', head: ']', cursor: '^' } });
+   * ```
+   */
+  async setState(notation: string, options: SetStateOptions = {}): Promise<void> {
+    return withStep('Set state', () => setStateHelper(this.view, notation, options));
+  }
+
+  /**
+   * Get the document text with the selection written in as markers, the inverse of
+   * `setState()`. Useful for logging; use `toMatchState()` to assert it.
+   *
+   * @param options - Custom markers
+   * @returns Promise resolving to the document text with selection markers
+   *
+   * @example
+   * ```typescript
+   * await page.keyboard.press('Enter');
+   * console.log(await editor.stateNotation()); // 'function f() {\n  |\n}'
+   * ```
+   */
+  async stateNotation(options: StateNotationOptions = {}): Promise<string> {
+    return withStep('Get state notation', async () => {
+      const { text, ranges } = await getState(this.view);
+      return formatStateNotation(text, ranges, options.markers);
+    });
+  }
+
   // ============================================================
-  // Viewport Query Methods - NO side effects
+  // Mouse Methods - Real mouse input at document positions
   // ============================================================
 
   /**
-   * Get information about which lines are currently visible in the viewport.
-   * This method has NO side effects (does not scroll).
+   * Click a document position with the real mouse.
    *
-   * Returns arrays of line ranges because code folding can create
-   * non-contiguous visible regions.
+   * The position is scrolled into view (vertically and horizontally) and clicked at
+   * coordinates from `coordsAtPos`, so the cursor lands exactly on it. Double and
+   * triple clicks select the word or line, as they would for a user.
    *
-   * @returns Promise resolving to viewport line information
+   * @param position - Position to click (1-based line, 0-based column)
+   * @param options - Click count and keyboard modifiers
+   * @throws Error if the position is out of range
    *
    * @example
    * ```typescript
-   * const info = await editor.linesInViewport();
-   * console.log(`Fully visible: lines ${info.fullyVisible[0].first}-${info.fullyVisible[0].last}`);
-   * console.log(`Partially visible: lines ${info.partiallyVisible[0].first}-${info.partiallyVisible[0].last}`);
+   * await editor.clickAt({ line: 12, col: 4 });
+   * await editor.clickAt({ line: 12, col: 4 }, { clickCount: 2 }); // Select word
+   * await editor.clickAt({ line: 20, col: 0 }, { modifiers: ['Shift'] }); // Extend
    * ```
    */
-  async linesInViewport(): Promise<ViewportLineInfo> {
-    return withStep('Get lines in viewport', () => getLinesInViewport(this.view));
+  async clickAt(position: DocumentPosition, options: ClickAtOptions = {}): Promise<void> {
+    return withStep(`Click at ${position.line}:${position.col}`, () =>
+      clickAtHelper(this.view, position, options)
+    );
   }
 
   /**
-   * Check if a line is currently rendered in the DOM.
-   * This method has NO side effects (does not scroll).
+   * Select text by dragging the mouse from one position to another.
    *
-   * @param lineNumber - 1-based line number
-   * @returns Promise resolving to true if the line is in the DOM
+   * Both ends are scrolled into view in turn, so the drag can span lines far outside
+   * the viewport. With `rectangular`, Alt is held to make a rectangular (block)
+   * selection through `rectangularSelection()`.
+   *
+   * @param from - Position to press the mouse at (the selection anchor)
+   * @param to - Position to release the mouse at (the selection head)
+   * @param options - Rectangular selection
+   * @throws Error if a position is out of range
    *
    * @example
    * ```typescript
-   * if (await editor.isLineRendered(500)) {
-   *   console.log('Line 500 is in the DOM');
-   * }
+   * await editor.dragSelect({ line: 5, col: 0 }, { line: 300, col: 10 });
+   * await editor.dragSelect({ line: 2, col: 4 }, { line: 6, col: 8 }, { rectangular: true });
    * ```
    */
-  async isLineRendered(lineNumber: number): Promise<boolean> {
-    return withStep(`Check line rendered "${lineNumber}"`, () =>
-      isLineRenderedHelper(this.view, lineNumber)
+  async dragSelect(
+    from: DocumentPosition,
+    to: DocumentPosition,
+    options: DragSelectOptions = {}
+  ): Promise<void> {
+    return withStep(`Drag select ${from.line}:${from.col} to ${to.line}:${to.col}`, () =>
+      dragSelectHelper(this.view, from, to, options)
     );
   }
 
   /**
-   * Check if a line is currently visible in the viewport.
-   * This method has NO side effects (does not scroll).
+   * Scroll a line into view, click its element in the line-number gutter with the real
+   * mouse and check that the line got selected.
    *
-   * @param lineNumber - 1-based line number
-   * @param partial - If true, returns true for partially visible lines (default: false)
-   * @returns Promise resolving to true if the line is visible
+   * ⚠️ `lineNumbers()` does not select lines on its own: the editor needs a gutter
+   * `mousedown` handler (`lineNumbers({ domEventHandlers })`) that selects the line.
+   *
+   * @param lineNumber - Line number (1-based)
+   * @param options - Keyboard modifiers held during the click
+   * @throws Error if the line has no line-number gutter element or the click did not select it
    *
    * @example
    * ```typescript
-   * // Check for full visibility
-   * if (await editor.isLineVisible(500)) {
-   *   console.log('Line 500 is fully visible');
-   * }
-   *
-   * // Check for partial visibility
-   * if (await editor.isLineVisible(500, true)) {
-   *   console.log('Line 500 is at least partially visible');
-   * }
+   * await editor.clickLineNumber(42);
+   * await expect(editor).toHaveSelection({
+   *   anchor: { line: 42, col: 0 },
+   *   head: { line: 43, col: 0 },
+   * });
    * ```
    */
-  async isLineVisible(lineNumber: number, partial: boolean = false): Promise<boolean> {
-    return withStep(`Check line visible "${lineNumber}"`, () =>
-      isLineVisibleHelper(this.view, lineNumber, partial)
+  async clickLineNumber(lineNumber: number, options: ClickLineNumberOptions = {}): Promise<void> {
+    return withStep(`Click line number "${lineNumber}"`, () =>
+      clickLineNumberHelper(this.view, lineNumber, options)
     );
   }
 
+  // ============================================================
+  // Folding Methods - Requires @codemirror/language code folding
+  // ============================================================
+
   /**
-   * Get the document line number for a rendered line element.
-   * Useful when you have a line locator but need to know its line number.
+   * Get every folded range in the document, including folds outside the viewport.
    *
-   * @param lineLocator - Locator for a rendered line element
-   * @returns Promise resolving to the 1-based line number
-   * @throws Error if the line number cannot be determined
+   * Folds are read with `foldedRanges(state)` from `@codemirror/language` without rendering
+   * any widget, so a custom `placeholderDOM` works too. The page must expose that function
+   * on the editor element: `view.dom.cmFoldedRanges = foldedRanges`.
+   *
+   * @returns Promise resolving to folded ranges sorted by position
+   * @throws Error if the page does not expose `foldedRanges`
    *
    * @example
    * ```typescript
-   * const firstRendered = editor.renderedLineAt(0);
-   * const lineNum = await editor.documentLineNumber(firstRendered);
-   * console.log(`First rendered line is line ${lineNum}`);
+   * const folds = await editor.foldedRanges();
+   * console.log(`Lines ${folds[0].first}-${folds[0].last} are folded`);
    * ```
    */
-  async documentLineNumber(lineLocator: Locator): Promise<number> {
-    return withStep('Get document line number', () =>
-      getDocumentLineNumber(this.view, lineLocator)
+  async foldedRanges(): Promise<FoldedRange[]> {
+    return withStep('Get folded ranges', () => getFoldedRanges(this.view));
+  }
+
+  /**
+   * Fold the foldable range that starts on `firstLine` and check that it ends on `lastLine`.
+   *
+   * The range comes from the editor's fold services (syntax tree or `foldService`),
+   * exactly as a user folding that line would get. Runs the `foldCode` command through
+   * its `foldKeymap` binding, so the keymap must be installed.
+   *
+   * ⚠️ The editor is focused and the cursor is moved to the end of `firstLine` to fold it.
+   * The previous selection is restored afterwards, also when folding fails, unless its head
+   * lies inside the new fold (moving it there would unfold it again).
+   *
+   * @param firstLine - 1-based line where the fold starts
+   * @param lastLine - 1-based line where the fold is expected to end
+   * @returns Promise resolving to the created fold
+   * @throws Error if the line cannot be folded or the fold ends on a different line
+   *
+   * @example
+   * ```typescript
+   * await editor.foldLines(2, 99);
+   * await expect(editor).toHaveFoldedRange({ first: 2, last: 99 });
+   * ```
+   */
+  async foldLines(firstLine: number, lastLine: number): Promise<FoldedRange> {
+    return withStep(`Fold lines "${firstLine}-${lastLine}"`, () =>
+      foldLinesHelper(this.view, firstLine, lastLine)
+    );
+  }
+
+  /**
+   * Unfold every folded range (the `unfoldAll` command from `foldKeymap`).
+   * Presses Ctrl-Alt-] in the focused editor, so `foldKeymap` must be installed.
+   *
+   * @throws Error if folds remain afterwards
+   */
+  async unfoldAll(): Promise<void> {
+    return withStep('Unfold all', () => unfoldAllHelper(this.view));
+  }
+
+  /**
+   * Scroll a line into view and click its fold gutter marker (toggles the fold).
+   *
+   * @param lineNumber - 1-based line number
+   * @throws Error if the line has no fold gutter element
+   *
+   * @example
+   * ```typescript
+   * await editor.clickFoldGutter(2);
+   * await expect(editor).toHaveFoldCount(1);
+   * ```
+   */
+  async clickFoldGutter(lineNumber: number): Promise<void> {
+    return withStep(`Click fold gutter "${lineNumber}"`, () =>
+      clickFoldGutterHelper(this.view, lineNumber)
+    );
+  }
+
+  // ============================================================
+  // Lint Methods - Requires @codemirror/lint
+  // ============================================================
+
+  /**
+   * Get all lint diagnostics, including those outside the rendered viewport.
+   * Reads `@codemirror/lint`'s state rather than the DOM.
+   *
+   * @returns Promise resolving to diagnostics sorted by position
+   *
+   * @example
+   * ```typescript
+   * await editor.waitForLintIdle();
+   * const diagnostics = await editor.lintDiagnostics();
+   * const errors = diagnostics.filter((d) => d.severity === 'error');
+   * ```
+   */
+  async lintDiagnostics(): Promise<LintDiagnostic[]> {
+    return withStep('Get lint diagnostics', () => getLintDiagnostics(this.view));
+  }
+
+  /**
+   * Wait until the linter has no pending run, the diagnostics of its last run have been
+   * applied (async sources included) and the editor state has settled.
+   *
+   * @param options - Timeout, quiet period, and whether to force an immediate lint run
+   * @throws Error if the linter is still busy after the timeout, or if the editor has
+   *   no recognizable `linter()` plugin
+   *
+   * @example
+   * ```typescript
+   * await editor.insertAt({ line: 1, col: 0 }, 'var x;\n');
+   * await editor.waitForLintIdle({ force: true });
+   * ```
+   */
+  async waitForLintIdle(options: WaitForLintIdleOptions = {}): Promise<void> {
+    return withStep('Wait for lint idle', () => waitForLintIdleHelper(this.view, options));
+  }
+
+  /**
+   * Scroll a line into view and return its lint gutter marker (`.cm-lint-marker`).
+   * Requires `lintGutter()`.
+   *
+   * @param lineNumber - 1-based line number
+   * @returns Promise resolving to a Locator for the marker
+   *
+   * @example
+   * ```typescript
+   * const marker = await editor.lintGutterMarker(480);
+   * await expect(marker).toHaveClass(/cm-lint-marker-error/);
+   * ```
+   */
+  async lintGutterMarker(lineNumber: number): Promise<Locator> {
+    return withStep(`Get lint gutter marker "${lineNumber}"`, () =>
+      getLintGutterMarker(this.view, lineNumber)
+    );
+  }
+
+  /**
+   * Scroll a line into view and click its lint gutter marker.
+   *
+   * @param lineNumber - 1-based line number
+   */
+  async clickLintGutterMarker(lineNumber: number): Promise<void> {
+    return withStep(`Click lint gutter marker "${lineNumber}"`, async () => {
+      const marker = await getLintGutterMarker(this.view, lineNumber);
+      await marker.click();
+    });
+  }
+
+  // ============================================================
+  // Search Methods - Drive the @codemirror/search panel
+  // ============================================================
+
+  /**
+   * Open the search panel (through the `Mod-f` binding from `searchKeymap`).
+   * Does nothing if it is already open.
+   */
+  async openSearchPanel(): Promise<void> {
+    return withStep('Open search panel', () => openSearchPanelHelper(this.view));
+  }
+
+  /**
+   * Close the search panel. Does nothing if it is not open.
+   */
+  async closeSearchPanel(): Promise<void> {
+    return withStep('Close search panel', () => closeSearchPanelHelper(this.view));
+  }
+
+  /**
+   * Open the search panel and fill in the query, its options and the replacement.
+   * Unspecified checkbox options are switched off.
+   *
+   * @param query - Search text (or regexp source with `{ regexp: true }`)
+   * @param options - Match case, regexp, whole word and replace text
+   *
+   * @example
+   * ```typescript
+   * await editor.searchFor('console', { caseSensitive: true });
+   * await editor.searchFor('Line \\d+', { regexp: true, replace: 'Row' });
+   * ```
+   */
+  async searchFor(query: string, options: SearchOptions = {}): Promise<void> {
+    return withStep(`Search for "${query}"`, () => searchForHelper(this.view, query, options));
+  }
+
+  /**
+   * Get every match of the panel's current query in the whole document,
+   * including matches outside the viewport.
+   *
+   * Uses the query the editor has committed and `@codemirror/search`'s own cursor, so the
+   * result is what the panel highlights; text typed into the panel but not yet committed
+   * doesn't count.
+   *
+   * @returns Promise resolving to matches sorted by position
+   * @throws Error if the search panel is not open
+   *
+   * @example
+   * ```typescript
+   * await editor.searchFor('TODO');
+   * const matches = await editor.searchMatches();
+   * console.log(matches.map((m) => m.line));
+   * ```
+   */
+  async searchMatches(): Promise<SearchMatch[]> {
+    return withStep('Get search matches', () => getSearchMatches(this.view));
+  }
+
+  /**
+   * Select the next match (the panel's "next" button).
+   */
+  async findNext(): Promise<void> {
+    return withStep('Find next match', () => clickSearchButton(this.view, 'next'));
+  }
+
+  /**
+   * Select the previous match (the panel's "previous" button).
+   */
+  async findPrevious(): Promise<void> {
+    return withStep('Find previous match', () => clickSearchButton(this.view, 'prev'));
+  }
+
+  /**
+   * Replace the current match and select the next one (the panel's "replace" button).
+   */
+  async replaceNext(): Promise<void> {
+    return withStep('Replace next match', () => clickSearchButton(this.view, 'replace'));
+  }
+
+  /**
+   * Replace every match (the panel's "replace all" button).
+   */
+  async replaceAll(): Promise<void> {
+    return withStep('Replace all matches', () => clickSearchButton(this.view, 'replaceAll'));
+  }
+
+  // ============================================================
+  // Completion Methods - Drive @codemirror/autocomplete
+  // ============================================================
+
+  /**
+   * Start completion (through the `Ctrl-Space` binding from `completionKeymap`)
+   * and wait for every completion source, including async ones, to settle.
+   *
+   * @param position - Where to place the cursor first (default: current cursor)
+   * @param options - Timeout and quiet period for the settle wait
+   * @throws Error if the position is out of range or autocompletion is not installed
+   *
+   * @example
+   * ```typescript
+   * await editor.triggerCompletion({ line: 2, col: 3 });
+   * await expect(editor).toHaveCompletionOptions(['console', 'const', 'continue']);
+   * ```
+   */
+  async triggerCompletion(
+    position?: DocumentPosition,
+    options: WaitForCompletionOptions = {}
+  ): Promise<void> {
+    const name = position
+      ? `Trigger completion at ${position.line}:${position.col}`
+      : 'Trigger completion';
+    return withStep(name, () => triggerCompletionHelper(this.view, position, options));
+  }
+
+  /**
+   * Get the options shown in the completion tooltip, in display order.
+   * Only rendered options are listed (`maxRenderedOptions`, 100 by default).
+   *
+   * @returns Promise resolving to the options, or an empty array if the tooltip is closed
+   *
+   * @example
+   * ```typescript
+   * const options = await editor.completionOptions();
+   * console.log(options.map((o) => `${o.label} (${o.type})`));
+   * ```
+   */
+  async completionOptions(): Promise<CompletionOption[]> {
+    return withStep('Get completion options', () => getCompletionOptions(this.view));
+  }
+
+  /**
+   * Select the completion option with the given label using the arrow keys.
+   *
+   * Waits for the completion sources to settle first, since the arrow keys are ignored by
+   * the list for `interactionDelay` after it opens. Pass a `quietPeriod` longer than the
+   * editor's `interactionDelay` if it was raised above 100ms.
+   *
+   * @param label - Exact label of the option
+   * @param options - Timeout and quiet period for settling
+   * @throws Error if the tooltip is not open, has no option with that label, or closes
+   * while selecting
+   */
+  async selectCompletion(label: string, options?: WaitForCompletionOptions): Promise<void> {
+    return withStep(`Select completion "${label}"`, () =>
+      selectCompletionHelper(this.view, label, options)
+    );
+  }
+
+  /**
+   * Select the completion option with the given label and accept it with `Enter`.
+   *
+   * @param label - Exact label of the option
+   * @param options - Timeout and quiet period for settling, as for `selectCompletion()`
+   * @throws Error if the tooltip is not open, has no option with that label, or closes
+   * while selecting
+   *
+   * @example
+   * ```typescript
+   * await editor.triggerCompletion({ line: 2, col: 3 });
+   * await editor.acceptCompletion('const');
+   * await expect(editor).toHaveLineText(2, 'const');
+   * ```
+   */
+  async acceptCompletion(label: string, options?: WaitForCompletionOptions): Promise<void> {
+    return withStep(`Accept completion "${label}"`, () =>
+      acceptCompletionHelper(this.view, label, options)
+    );
+  }
+
+  /**
+   * Wait until no completion source is pending or running and the completion
+   * state has been unchanged for the quiet period. Useful after typing with
+   * `activateOnTyping`.
+   *
+   * @param options - Timeout and quiet period
+   * @throws Error if the sources do not settle in time
+   */
+  async waitForCompletion(options: WaitForCompletionOptions = {}): Promise<void> {
+    return withStep('Wait for completion', () => waitForCompletionSettled(this.view, options));
+  }
+
+  // ============================================================
+  // Tooltip Methods - Hover positions and inspect tooltips
+  // ============================================================
+
+  /**
+   * Hover a document position and wait for a hover tooltip (`.cm-tooltip-hover`).
+   *
+   * The position is scrolled into view (vertically and horizontally) and the mouse is
+   * moved to the middle of its character, using coordinates from `coordsAtPos`.
+   *
+   * @param position - Position to hover (1-based line, 0-based column)
+   * @param options - Timeout for the tooltip to appear
+   * @returns Promise resolving to the hover tooltip locator
+   * @throws Error if the position is out of range or no tooltip appears in time
+   *
+   * @example
+   * ```typescript
+   * const tooltip = await editor.hoverAt({ line: 12, col: 4 });
+   * await expect(tooltip).toContainText('function greet');
+   * ```
+   */
+  async hoverAt(position: DocumentPosition, options: HoverOptions = {}): Promise<Locator> {
+    return withStep(`Hover at ${position.line}:${position.col}`, () =>
+      hoverAtHelper(this.view, position, options)
+    );
+  }
+
+  /**
+   * Get the tooltips currently shown by the editor, of any kind
+   * (hover, autocompletion, lint, ...).
+   *
+   * @returns Promise resolving to the visible tooltips
+   *
+   * @example
+   * ```typescript
+   * const tooltips = await editor.tooltips();
+   * console.log(tooltips.filter((t) => t.hover).map((t) => t.text));
+   * ```
+   */
+  async tooltips(): Promise<TooltipInfo[]> {
+    return withStep('Get tooltips', () => getTooltips(this.view));
+  }
+
+  // ============================================================
+  // Syntax Methods - Inspect highlighting and the Lezer tree
+  // ============================================================
+
+  /**
+   * Get the highlighted spans of a line with their text, CSS classes and offsets.
+   * The line is scrolled into view first if it isn't rendered.
+   *
+   * Classes are whatever the editor's highlighters render: `tok-*` classes with
+   * `classHighlighter`, generated classes with a `HighlightStyle`.
+   *
+   * @param lineNumber - 1-based line number
+   * @returns Promise resolving to the spans in document order (unstyled text is omitted)
+   * @throws Error if the line is out of range
+   *
+   * @example
+   * ```typescript
+   * const tokens = await editor.tokensOnLine(3);
+   * expect(tokens.find((t) => t.text === 'const')?.classes).toContain('tok-keyword');
+   * ```
+   */
+  async tokensOnLine(lineNumber: number): Promise<TokenSpan[]> {
+    return withStep(`Get tokens on line "${lineNumber}"`, () =>
+      getTokensOnLine(this.view, lineNumber)
+    );
+  }
+
+  /**
+   * Get the innermost syntax node at a position, with the names of its ancestors.
+   * Reads the Lezer tree `@codemirror/language` has already parsed, so it works for lines
+   * that aren't rendered, without parsing anything itself. The background parser works
+   * ahead of the viewport, and its progress is waited for up to `timeout`.
+   *
+   * @param position - Position to resolve (1-based line, 0-based column)
+   * @param options - Side to resolve towards and how long to wait for the parser
+   * @returns Promise resolving to the node's name, range, text and ancestry
+   * @throws Error if no language is installed or the tree doesn't reach the position in time
+   *
+   * @example
+   * ```typescript
+   * const node = await editor.syntaxNodeAt({ line: 2, col: 6 });
+   * console.log(node.name, node.ancestors); // 'VariableDefinition', ['VariableDeclaration', 'Script']
+   * ```
+   */
+  async syntaxNodeAt(
+    position: DocumentPosition,
+    options: SyntaxNodeOptions = {}
+  ): Promise<SyntaxNodeInfo> {
+    return withStep(`Get syntax node at ${position.line}:${position.col}`, () =>
+      getSyntaxNodeAt(this.view, position, options)
+    );
+  }
+
+  // ============================================================
+  // Scroll Methods - Operate on .cm-scroller
+  // ============================================================
+
+  /**
+   * Get the current scroll position of the editor.
+   *
+   * @returns Promise resolving to { scrollTop, scrollLeft }
+   */
+  async scrollPosition(): Promise<ScrollPosition> {
+    return withStep('Get scroll position', () => getScrollPosition(this.scroller));
+  }
+
+  /**
+   * Get the scroll dimensions of the editor.
+   *
+   * @returns Promise resolving to scroll dimensions
+   */
+  async scrollDimensions(): Promise<ScrollDimensions> {
+    return withStep('Get scroll dimensions', () => getScrollDimensions(this.scroller));
+  }
+
+  /**
+   * Set the scroll position of the editor.
+   *
+   * @param position - Target scroll position (partial - only set what's specified)
+   * @param options - Options for scroll behavior
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollTo({ scrollTop: 200 });
+   * await editor.scrollTo({ scrollTop: 0, scrollLeft: 0 });
+   * await editor.scrollTo({ scrollTop: 500 }, { waitForIdle: false }); // Don't wait
+   * ```
+   */
+  async scrollTo(
+    position: PartialScrollPosition,
+    options: ScrollToOptions = {}
+  ): Promise<void> {
+    const posStr = [position.scrollTop, position.scrollLeft].filter((v) => v !== undefined).join(', ');
+    return withStep(`Scroll to "${posStr}"`, () =>
+      scrollToHelper(this.scroller, position, options)
+    );
+  }
+
+  /**
+   * Wait for scroll position to stabilize.
+   * Useful after programmatic scrolling or when testing scroll behavior.
+   *
+   * @param timeout - Maximum time to wait in milliseconds (default: 1000)
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollTo({ scrollTop: 500 }, { waitForIdle: false });
+   * // ... do something else ...
+   * await editor.waitForScrollIdle();
+   * ```
+   */
+  async waitForScrollIdle(timeout = 1000): Promise<void> {
+    return withStep('Wait for scroll idle', () =>
+      waitForScrollIdleHelper(this.scroller, timeout)
+    );
+  }
+
+  /**
+   * Scroll by a relative amount.
+   *
+   * @param delta - Amount to scroll (partial - only scroll axes specified)
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollBy({ scrollTop: 100 }); // Scroll down 100px
+   * await editor.scrollBy({ scrollTop: -50 }); // Scroll up 50px
+   * ```
+   */
+  async scrollBy(delta: PartialScrollPosition): Promise<void> {
+    const deltaStr = [delta.scrollTop, delta.scrollLeft].filter((v) => v !== undefined).join(', ');
+    return withStep(`Scroll by "${deltaStr}"`, () => scrollByHelper(this.scroller, delta));
+  }
+
+  /**
+   * Scroll a specific line into view.
+   * Uses CodeMirror's 1-based line numbering.
+   *
+   * Uses CodeMirror's internal geometry when available for accurate positioning
+   * that accounts for wrapped lines, folded regions, and variable-height decorations.
+   * Falls back to uniform height estimation if cmView is unavailable.
+   *
+   * @param lineNumber - 1-based line number to scroll into view
+   * @param options - Scroll options including position
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollToLine(50);                          // Line at top
+   * await editor.scrollToLine(50, { position: 'center' });  // Line centered
+   * await editor.scrollToLine(50, { position: 'bottom' });  // Line at bottom
+   * await editor.scrollToLine(50, { position: 0.25 });      // Line at 25% from top
+   * ```
+   */
+  async scrollToLine(
+    lineNumber: number,
+    options: ScrollToLineOptions = {}
+  ): Promise<void> {
+    return withStep(`Scroll to line "${lineNumber}"`, () =>
+      scrollToLineHelper(this.view, lineNumber, options)
+    );
+  }
+
+  /**
+   * Scroll a document position into view, both vertically and horizontally.
+   * Uses CodeMirror's `EditorView.scrollIntoView` effect, so `scrollLeft` is set for
+   * long unwrapped lines and scroll margins (such as a fixed gutter) are respected.
+   * `y` places the line as `scrollToLine()` does, and `margin` is added on top of it.
+   *
+   * @param position - Position to scroll to (1-based line, 0-based column)
+   * @param options - Horizontal (`x`) and vertical (`y`) placement and edge margin
+   * @throws Error if the position is out of range or `y` is not between 0 and 1
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollToPosition({ line: 1, col: 4000 });                   // Column at the left
+   * await editor.scrollToPosition({ line: 1, col: 4000 }, { x: 'nearest' }); // Only as needed
+   * await editor.scrollToPosition({ line: 80, col: 0 }, { y: 'center', margin: 20 });
+   * ```
+   */
+  async scrollToPosition(
+    position: DocumentPosition,
+    options: ScrollToPositionOptions = {}
+  ): Promise<void> {
+    return withStep(`Scroll to position ${position.line}:${position.col}`, () =>
+      scrollToPositionHelper(this.view, position, options)
+    );
+  }
+
+  /**
+   * Scroll horizontally to a column, scrolling vertically only as far as needed to
+   * show its line. Without `line`, the column of the line in the middle of the
+   * viewport is used.
+   *
+   * @param col - 0-based column
+   * @param options - Line, horizontal placement (default: 'start') and edge margin
+   * @throws Error if the column is beyond the end of the line
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollToColumn(2500, { line: 1 });
+   * await editor.scrollToColumn(0); // Back to the left edge
+   * ```
+   */
+  async scrollToColumn(col: number, options: ScrollToColumnOptions = {}): Promise<void> {
+    return withStep(`Scroll to column "${col}"`, () =>
+      scrollToColumnHelper(this.view, col, options)
+    );
+  }
+
+  /**
+   * Record scrolling while an action runs: every scroll event and animation frame with
+   * its timestamp and scroll position, plus the rendered and visible lines of each frame.
+   *
+   * The trace summarizes whether the position moved in one direction only, the longest
+   * gap between frames and the frames where `.cm-gap` placeholders left text blank.
+   *
+   * @param action - Action that scrolls the editor
+   * @param options - Whether to keep recording until scrolling settles (default: true)
+   * @returns Promise resolving to the scroll trace
+   *
+   * @example
+   * ```typescript
+   * const trace = await editor.recordScroll(async () => {
+   *   await page.mouse.wheel(0, 3000);
+   * });
+   * expect(trace.monotonic).toBe(true);
+   * expect(trace.maxFrameGap).toBeLessThan(50);
+   * expect(trace.blankFrames).toEqual([]);
+   * ```
+   */
+  async recordScroll(
+    action: () => Promise<unknown>,
+    options: RecordScrollOptions = {}
+  ): Promise<ScrollTrace> {
+    return withStep('Record scroll', () => recordScrollHelper(this.view, action, options));
+  }
+
+  /**
+   * Measure what an action costs the editor: its duration, CodeMirror's update and
+   * measure cycles, long tasks, browser layouts and the number of `.cm-line` elements.
+   *
+   * Long tasks and the layout count are only available in Chromium.
+   *
+   * @param action - Action to measure, e.g. typing or scrolling
+   * @returns Promise resolving to the performance report
+   *
+   * @example
+   * ```typescript
+   * const report = await editor.measure(async () => {
+   *   await editor.scrollToLine(90000);
+   * });
+   * expect(report).toCompleteWithin(1000);
+   * expect(report).toRenderAtMostLines(200);
+   * console.log(report.measures.maxTime, report.layoutCount);
+   * ```
+   */
+  async measure(action: () => Promise<unknown>): Promise<PerformanceReport> {
+    return withStep('Measure performance', () => measurePerformance(this.view, action));
+  }
+
+  // ============================================================
+  // Viewport Query Methods - NO side effects
+  // ============================================================
+
+  /**
+   * Get information about which lines are currently visible in the viewport.
+   * This method has NO side effects (does not scroll).
+   *
+   * Returns arrays of line ranges because code folding can create
+   * non-contiguous visible regions.
+   *
+   * @returns Promise resolving to viewport line information
+   *
+   * @example
+   * ```typescript
+   * const info = await editor.linesInViewport();
+   * console.log(`Fully visible: lines ${info.fullyVisible[0].first}-${info.fullyVisible[0].last}`);
+   * console.log(`Partially visible: lines ${info.partiallyVisible[0].first}-${info.partiallyVisible[0].last}`);
+   * ```
+   */
+  async linesInViewport(): Promise<ViewportLineInfo> {
+    return withStep('Get lines in viewport', () => getLinesInViewport(this.view));
+  }
+
+  /**
+   * Check if a line is currently rendered in the DOM.
+   * This method has NO side effects (does not scroll).
+   *
+   * @param lineNumber - 1-based line number
+   * @returns Promise resolving to true if the line is in the DOM
+   *
+   * @example
+   * ```typescript
+   * if (await editor.isLineRendered(500)) {
+   *   console.log('Line 500 is in the DOM');
+   * }
+   * ```
+   */
+  async isLineRendered(lineNumber: number): Promise<boolean> {
+    return withStep(`Check line rendered "${lineNumber}"`, () =>
+      isLineRenderedHelper(this.view, lineNumber)
+    );
+  }
+
+  /**
+   * Check if a line is currently visible in the viewport.
+   * This method has NO side effects (does not scroll).
+   *
+   * @param lineNumber - 1-based line number
+   * @param partial - If true, returns true for partially visible lines (default: false)
+   * @returns Promise resolving to true if the line is visible
+   *
+   * @example
+   * ```typescript
+   * // Check for full visibility
+   * if (await editor.isLineVisible(500)) {
+   *   console.log('Line 500 is fully visible');
+   * }
+   *
+   * // Check for partial visibility
+   * if (await editor.isLineVisible(500, true)) {
+   *   console.log('Line 500 is at least partially visible');
+   * }
+   * ```
+   */
+  async isLineVisible(lineNumber: number, partial: boolean = false): Promise<boolean> {
+    return withStep(`Check line visible "${lineNumber}"`, () =>
+      isLineVisibleHelper(this.view, lineNumber, partial)
+    );
+  }
+
+  /**
+   * Get the document line number for a rendered line element.
+   * Useful when you have a line locator but need to know its line number.
+   *
+   * @param lineLocator - Locator for a rendered line element
+   * @returns Promise resolving to the 1-based line number
+   * @throws Error if the line number cannot be determined
+   *
+   * @example
+   * ```typescript
+   * const firstRendered = editor.renderedLineAt(0);
+   * const lineNum = await editor.documentLineNumber(firstRendered);
+   * console.log(`First rendered line is line ${lineNum}`);
+   * ```
+   */
+  async documentLineNumber(lineLocator: Locator): Promise<number> {
+    return withStep('Get document line number', () =>
+      getDocumentLineNumber(this.view, lineLocator)
+    );
+  }
+
+  // ============================================================
+  // Snapshot Methods - Stable text serialization of the editor
+  // ============================================================
+
+  /**
+   * Serialize the editor into a stable text snapshot: the document with line numbers,
+   * the selection, folded ranges, the lines carrying each entry of this editor's
+   * extension registry, and the visible line range.
+   *
+   * Use `toMatchEditorSnapshot()` to compare it with a stored snapshot file.
+   *
+   * @param options - Sections to include (`document` or a line range, `viewport`, `extensions`)
+   * @returns Promise resolving to the snapshot text
+   * @throws Error if the `document` line range is out of range
+   *
+   * @example
+   * ```typescript
+   * console.log(await editor.snapshot({ viewport: false }));
+   * // Document (3 lines):
+   * // 1 | function f() {
+   * // 2 |   return 1;
+   * // 3 | }
+   * //
+   * // Selection: 2:2 (main)
+   * // Folded: none
+   * // Extensions: none
+   * ```
+   */
+  async snapshot(options: EditorSnapshotOptions = {}): Promise<string> {
+    return withStep('Serialize editor snapshot', () =>
+      serializeEditor(this.view, this.registry, options)
     );
   }
 }
@@ -0,0 +1,252 @@
+import type { Locator } from '@playwright/test';
+import type {
+  CMEditorSource,
+  CMMergeViewOptions,
+  CollapsedRegion,
+  MergeChunk,
+  MergeSide,
+} from './types.js';
+import { CMEditor } from './cm-editor.js';
+import {
+  copyChunk,
+  expandCollapsedRegion,
+  getCollapsedRegions,
+  getMergeChunks,
+  goToChunk,
+  scrollToRevertControl,
+} from './merge.js';
+import { withStep } from './tracing.js';
+
+/**
+ * `@codemirror/merge` side-by-side view locator for Playwright.
+ *
+ * Wraps the `.cm-mergeView` DOM:
+ * - `.cm-mergeView` - Root element (usually the scroll container)
+ * - `.cm-merge-a` / `.cm-merge-b` - The two editors, exposed as `a` and `b`
+ * - `.cm-changedLine` / `.cm-changedText` - Changed lines and text
+ * - `.cm-merge-revert` - Revert controls between the editors
+ * - `.cm-collapsedLines` - Collapsed unchanged regions
+ *
+ * Both editors must expose their view as `cmView` on their `.cm-editor` element.
+ *
+ * @example
+ * ```typescript
+ * const merge = CMMergeView.from(page);
+ * await expect(merge).toHaveChunkCount(3);
+ * await merge.acceptChunk(0);
+ * await expect(merge.b).toHaveLineText(4, 'changed line');
+ * ```
+ */
+export class CMMergeView {
+  private readonly source: CMEditorSource;
+  private readonly options: CMMergeViewOptions;
+
+  private constructor(source: CMEditorSource, options: CMMergeViewOptions = {}) {
+    this.source = source;
+    this.options = { nth: 0, ...options };
+  }
+
+  /**
+   * Create a CMMergeView from a Page or Locator.
+   *
+   * @param source - Playwright Page or Locator to search within
+   * @param options - Which merge view (nth) and the registry for the sub-editors
+   * @returns A CMMergeView instance
+   *
+   * @example
+   * ```typescript
+   * const merge = CMMergeView.from(page);
+   * const second = CMMergeView.from(page, { nth: 1 });
+   * ```
+   */
+  static from(source: CMEditorSource, options: CMMergeViewOptions = {}): CMMergeView {
+    return new CMMergeView(source, options);
+  }
+
+  // ============================================================
+  // DOM Locators
+  // ============================================================
+
+  /**
+   * Locator for the root `.cm-mergeView` element.
+   */
+  get root(): Locator {
+    return this.source.locator('.cm-mergeView').nth(this.options.nth ?? 0);
+  }
+
+  /**
+   * Editor for document A (`.cm-merge-a`), usually the original.
+   */
+  get a(): CMEditor {
+    return this.editor('a');
+  }
+
+  /**
+   * Editor for document B (`.cm-merge-b`), usually the changed version.
+   */
+  get b(): CMEditor {
+    return this.editor('b');
+  }
+
+  /**
+   * Locator for the changed lines (`.cm-changedLine`) of one side, or of both.
+   * Only lines currently in the DOM are matched; use `chunks()` for the whole document.
+   */
+  changedLines(side?: MergeSide): Locator {
+    const scope = side ? this.editor(side).view : this.root;
+    return scope.locator('.cm-changedLine');
+  }
+
+  /**
+   * Locator for the collapsed unchanged regions (`.cm-collapsedLines`) currently in the DOM.
+   */
+  get collapsedLines(): Locator {
+    return this.root.locator('.cm-collapsedLines');
+  }
+
+  private editor(side: MergeSide): CMEditor {
+    // The editors are wrapped in `.cm-mergeViewEditor` elements, in orientation order
+    const wrapper = this.root
+      .locator('.cm-mergeViewEditor')
+      .filter({ has: this.root.page().locator(`.cm-merge-${side}`) });
+    return CMEditor.from(wrapper, { registry: this.options.registry });
+  }
+
+  // ============================================================
+  // Chunk Methods
+  // ============================================================
+
+  /**
+   * Get the changed chunks, with their line ranges on both sides.
+   * Read from the merge state, so chunks outside the viewport are included.
+   *
+   * @returns Chunks in document order
+   *
+   * @example
+   * ```typescript
+   * const chunks = await merge.chunks();
+   * expect(chunks[0]).toMatchObject({ a: { first: 4, last: 4 }, b: { first: 4, last: 5 } });
+   * ```
+   */
+  async chunks(): Promise<MergeChunk[]> {
+    return withStep('Get merge chunks', () => getMergeChunks(this.root));
+  }
+
+  /**
+   * Move the cursor of one side to the next chunk and scroll it into view.
+   * Wraps around after the last chunk.
+   *
+   * @param side - Editor whose cursor moves (default: 'b')
+   * @returns Index of the chunk the cursor moved to
+   * @throws Error if the merge view has no chunks
+   */
+  async goToNextChunk(side: MergeSide = 'b'): Promise<number> {
+    return withStep('Go to next chunk', () => goToChunk(this.root, side, 1));
+  }
+
+  /**
+   * Move the cursor of one side to the previous chunk and scroll it into view.
+   * Wraps around before the first chunk.
+   *
+   * @param side - Editor whose cursor moves (default: 'b')
+   * @returns Index of the chunk the cursor moved to
+   * @throws Error if the merge view has no chunks
+   */
+  async goToPreviousChunk(side: MergeSide = 'b'): Promise<number> {
+    return withStep('Go to previous chunk', () => goToChunk(this.root, side, -1));
+  }
+
+  /**
+   * Accept a chunk: copy B's version of it into A, so the chunk disappears.
+   *
+   * @param index - Chunk index (0-based, see `chunks()`)
+   * @throws Error if the chunk doesn't exist
+   */
+  async acceptChunk(index: number): Promise<void> {
+    return withStep(`Accept chunk ${index}`, () => copyChunk(this.root, index, 'b'));
+  }
+
+  /**
+   * Reject a chunk: restore A's version of it in B, so the chunk disappears.
+   *
+   * @param index - Chunk index (0-based, see `chunks()`)
+   * @throws Error if the chunk doesn't exist
+   */
+  async rejectChunk(index: number): Promise<void> {
+    return withStep(`Reject chunk ${index}`, () => copyChunk(this.root, index, 'a'));
+  }
+
+  /**
+   * Scroll a chunk into view and return its revert control (`revertControls` option).
+   * The merge view only renders controls for chunks in the viewport.
+   *
+   * @param index - Chunk index (0-based)
+   * @returns Locator for the chunk's revert button
+   * @throws Error if the chunk doesn't exist or has no control
+   *
+   * @example
+   * ```typescript
+   * await (await merge.revertControl(1)).click();
+   * ```
+   */
+  async revertControl(index: number): Promise<Locator> {
+    return withStep(`Locate revert control ${index}`, () =>
+      scrollToRevertControl(this.root, index)
+    );
+  }
+
+  // ============================================================
+  // Collapsed Region Methods
+  // ============================================================
+
+  /**
+   * Get the unchanged regions collapsed by `collapseUnchanged`, on both sides,
+   * including regions outside the viewport.
+   */
+  async collapsedRegions(): Promise<CollapsedRegion[]> {
+    return withStep('Get collapsed regions', () => getCollapsedRegions(this.root));
+  }
+
+  /**
+   * Expand collapsed unchanged regions by clicking their widgets.
+   * Without a line, every region is expanded; with a line, only the region
+   * containing it on the given side.
+   *
+   * @param options.line - Line inside the region to expand (1-based)
+   * @param options.side - Side the line refers to (default: 'a')
+   * @throws Error if no collapsed region contains the line
+   *
+   * @example
+   * ```typescript
+   * await merge.expandCollapsed({ line: 50 });
+   * await merge.expandCollapsed(); // All regions
+   * ```
+   */
+  async expandCollapsed(options: { line?: number; side?: MergeSide } = {}): Promise<void> {
+    const { line, side = 'a' } = options;
+
+    return withStep('Expand collapsed lines', async () => {
+      if (line !== undefined) {
+        const regions = await getCollapsedRegions(this.root);
+        const region = regions.find(
+          (r) => r.side === side && r.lines.first <= line && r.lines.last >= line
+        );
+        if (!region) {
+          throw new Error(`Line ${line} (side ${side}) is not in a collapsed region`);
+        }
+        await expandCollapsedRegion(this.root, region);
+        return;
+      }
+
+      // Expanding one side expands the other too; re-read the regions after each click
+      let regions = await getCollapsedRegions(this.root);
+      for (let attempts = regions.length * 2; regions.length > 0 && attempts > 0; attempts--) {
+        await expandCollapsedRegion(this.root, regions[0]);
+        regions = await getCollapsedRegions(this.root);
+      }
+      if (regions.length > 0) {
+        throw new Error(`${regions.length} collapsed regions could not be expanded`);
+      }
+    });
+  }
+}
@@ -0,0 +1,210 @@
+import type { Locator } from '@playwright/test';
+import type { CompletionOption, DocumentPosition, WaitForCompletionOptions } from './types.js';
+
+/**
+ * Locator for the `@codemirror/autocomplete` tooltip of an editor.
+ */
+export function completionTooltip(view: Locator): Locator {
+  return view.locator('.cm-tooltip-autocomplete');
+}
+
+/**
+ * Wait until no completion source is pending or running and the completion
+ * state has stopped changing.
+ *
+ * The completion plugin debounces queries (`debounceUpdate`), tracks running
+ * sources in `running` and batches their results (`debounceAccept`).
+ */
+export async function waitForCompletionSettled(
+  view: Locator,
+  options: WaitForCompletionOptions = {}
+): Promise<void> {
+  const { timeout = 5000, quietPeriod = 100 } = options;
+
+  const result = await view.evaluate(
+    (el, { timeout, quietPeriod }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state) return 'no-view';
+
+      const findCompletionPlugin = () => {
+        for (const plugin of cmView.plugins ?? []) {
+          const value = plugin?.value;
+          if (
+            value &&
+            Array.isArray(value.running) &&
+            typeof value.debounceUpdate === 'number' &&
+            typeof value.debounceAccept === 'number'
+          ) {
+            return value;
+          }
+        }
+        return null;
+      };
+
+      const completionPlugin = findCompletionPlugin();
+      if (!completionPlugin) return 'no-plugin';
+
+      return new Promise<'settled' | 'timeout'>((resolve) => {
+        const deadline = Date.now() + timeout;
+        let lastState = cmView.state;
+        let stableSince = Date.now();
+
+        const check = () => {
+          const busy =
+            completionPlugin.running.length > 0 ||
+            completionPlugin.debounceUpdate > -1 ||
+            completionPlugin.debounceAccept > -1 ||
+            completionPlugin.pendingStart === true;
+          if (cmView.state !== lastState || busy) {
+            lastState = cmView.state;
+            stableSince = Date.now();
+          }
+          if (!busy && Date.now() - stableSince >= quietPeriod) {
+            return resolve('settled');
+          }
+          if (Date.now() > deadline) {
+            return resolve('timeout');
+          }
+          setTimeout(check, 20);
+        };
+        check();
+      });
+    },
+    { timeout, quietPeriod }
+  );
+
+  if (result === 'no-view') {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+  if (result === 'no-plugin') {
+    throw new Error('Autocompletion plugin not found (is autocompletion() installed?)');
+  }
+  if (result === 'timeout') {
+    throw new Error(`Completion sources did not settle within ${timeout}ms`);
+  }
+}
+
+/**
+ * Start completion through the `Ctrl-Space` binding from `completionKeymap`,
+ * optionally moving the cursor first, and wait for the sources to settle.
+ */
+export async function triggerCompletion(
+  view: Locator,
+  position?: DocumentPosition,
+  options: WaitForCompletionOptions = {}
+): Promise<void> {
+  const error = await view.evaluate((el, position) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) {
+      return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+    }
+
+    if (position) {
+      const doc = cmView.state.doc;
+      if (position.line < 1 || position.line > doc.lines) {
+        return `Line ${position.line} is out of range (document has ${doc.lines} lines)`;
+      }
+      const line = doc.line(position.line);
+      if (position.col < 0 || position.col > line.length) {
+        return `Column ${position.col} is out of range (line ${position.line} has ${line.length} characters)`;
+      }
+      cmView.dispatch({ selection: { anchor: line.from + position.col }, scrollIntoView: true });
+    }
+    cmView.focus();
+    return null;
+  }, position ?? null);
+
+  if (error !== null) {
+    throw new Error(error);
+  }
+
+  await view.locator('.cm-content').press('Control+Space');
+  await waitForCompletionSettled(view, options);
+}
+
+/**
+ * Get the options rendered in the completion tooltip, in display order.
+ * Returns an empty list when the tooltip is not open.
+ */
+export async function getCompletionOptions(view: Locator): Promise<CompletionOption[]> {
+  return view.evaluate((el) => {
+    const items = el.querySelectorAll('.cm-tooltip-autocomplete li[role=option]');
+    return Array.from(items).map((item) => {
+      const label = item.querySelector('.cm-completionLabel')?.textContent ?? '';
+      const detail = item.querySelector('.cm-completionDetail')?.textContent || undefined;
+      const icon = item.querySelector('.cm-completionIcon');
+      const types = icon
+        ? Array.from(icon.classList)
+            .filter((cls) => cls.startsWith('cm-completionIcon-'))
+            .map((cls) => cls.slice('cm-completionIcon-'.length))
+        : [];
+      return {
+        label,
+        detail,
+        type: types.length > 0 ? types.join(' ') : undefined,
+        selected: item.hasAttribute('aria-selected'),
+      };
+    });
+  });
+}
+
+/**
+ * Move the tooltip's selection to the option with the given label using the
+ * arrow key bindings from `completionKeymap`.
+ *
+ * The completion keys do nothing for `interactionDelay` (75ms by default) after the list
+ * opens, and the arrow keys then move the cursor instead, closing the list. So the
+ * sources are first waited on to settle: its quiet period (100ms by default) lets the
+ * open list age past the default delay. An editor with a longer `interactionDelay` needs
+ * a longer `quietPeriod`.
+ */
+export async function selectCompletion(
+  view: Locator,
+  label: string,
+  options: WaitForCompletionOptions = {}
+): Promise<void> {
+  const content = view.locator('.cm-content');
+  if ((await getCompletionOptions(view)).length === 0) {
+    throw new Error('Completion tooltip is not open (use triggerCompletion() first)');
+  }
+
+  await waitForCompletionSettled(view, options);
+  let current = await getCompletionOptions(view);
+
+  for (let attempt = 0; attempt < current.length * 2 + 10; attempt++) {
+    if (current.length === 0) {
+      throw new Error(
+        `Completion tooltip closed while selecting "${label}" ` +
+          '(a key press reached the editor instead of the completion list)'
+      );
+    }
+    const target = current.findIndex((option) => option.label === label);
+    if (target === -1) {
+      const labels = current.map((option) => option.label).join(', ');
+      throw new Error(`Completion "${label}" not found (options: ${labels})`);
+    }
+
+    const selected = current.findIndex((option) => option.selected);
+    if (selected === target) return;
+
+    await content.press(selected === -1 || selected < target ? 'ArrowDown' : 'ArrowUp');
+    current = await getCompletionOptions(view);
+  }
+
+  throw new Error(`Could not select completion "${label}"`);
+}
+
+/**
+ * Select the option with the given label and accept it with `Enter`.
+ */
+export async function acceptCompletion(
+  view: Locator,
+  label: string,
+  options: WaitForCompletionOptions = {}
+): Promise<void> {
+  await selectCompletion(view, label, options);
+  await view.locator('.cm-content').press('Enter');
+  await completionTooltip(view).waitFor({ state: 'detached' });
+}
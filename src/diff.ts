@@ -0,0 +1,125 @@
+/**
+ * Largest changed block (lines in `expected` × lines in `actual`) that gets a line-level
+ * diff. Bigger blocks are shown as one replace hunk instead of filling a huge LCS table.
+ */
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * Build a unified line diff between two texts for matcher failure messages.
+ *
+ * Lines only in `expected` are prefixed with `-`, lines only in `actual` with `+`.
+ * Unchanged lines are kept as context around each change (`context` lines on each side).
+ */
+export function formatUnifiedDiff(expected: string, actual: string, context = 3): string {
+  const a = expected.split('\n');
+  const b = actual.split('\n');
+
+  type Op = { kind: ' ' | '-' | '+'; text: string; aLine: number; bLine: number };
+  const ops: Op[] = [];
+
+  // Skip the common prefix and suffix so the LCS table only covers the changed middle
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  for (let k = 0; k < prefix; k++) {
+    ops.push({ kind: ' ', text: a[k], aLine: k + 1, bLine: k + 1 });
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    // Replace the whole changed block
+    midA.forEach((text, k) =>
+      ops.push({ kind: '-', text, aLine: prefix + k + 1, bLine: prefix + 1 })
+    );
+    midB.forEach((text, k) =>
+      ops.push({ kind: '+', text, aLine: prefix + midA.length + 1, bLine: prefix + k + 1 })
+    );
+  } else {
+    // Longest common subsequence table (suffix-based so we can walk forward)
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+      new Array<number>(midB.length + 1).fill(0)
+    );
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] =
+          midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      const aLine = prefix + i + 1;
+      const bLine = prefix + j + 1;
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ kind: ' ', text: midA[i], aLine, bLine });
+        i++;
+        j++;
+      } else if (j < midB.length && (i === midA.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        ops.push({ kind: '+', text: midB[j], aLine, bLine });
+        j++;
+      } else {
+        ops.push({ kind: '-', text: midA[i], aLine, bLine });
+        i++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    ops.push({
+      kind: ' ',
+      text: a[a.length - k],
+      aLine: a.length - k + 1,
+      bLine: b.length - k + 1,
+    });
+  }
+
+  // Group changes into hunks with surrounding context
+  const output: string[] = ['- Expected', '+ Received', ''];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].kind === ' ') {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    while (end < ops.length) {
+      if (ops[end].kind !== ' ') {
+        end++;
+        continue;
+      }
+      // Look ahead: merge with the next change if it is within 2 * context lines
+      let next = end;
+      while (next < ops.length && ops[next].kind === ' ') next++;
+      if (next < ops.length && next - end <= context * 2) {
+        end = next;
+      } else {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+    }
+
+    const hunk = ops.slice(start, end);
+    const aCount = hunk.filter((op) => op.kind !== '+').length;
+    const bCount = hunk.filter((op) => op.kind !== '-').length;
+    output.push(`@@ -${hunk[0].aLine},${aCount} +${hunk[0].bLine},${bCount} @@`);
+    for (const op of hunk) {
+      output.push(`${op.kind} ${op.text}`);
+    }
+    index = end;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,160 @@
+import type { Locator } from '@playwright/test';
+import type { DocumentRange, LineMatch } from './types.js';
+
+/**
+ * Get the full document text from CodeMirror's state.
+ */
+export async function getDocumentText(view: Locator): Promise<string> {
+  const text = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) return null;
+    return cmView.state.doc.toString() as string;
+  });
+
+  if (text === null) {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+
+  return text;
+}
+
+/**
+ * Get the text of a single document line (without the line break).
+ */
+export async function getLineText(view: Locator, lineNumber: number): Promise<string> {
+  if (lineNumber < 1) {
+    throw new Error(`Line number must be >= 1, got ${lineNumber}`);
+  }
+
+  const result = await view.evaluate((el, targetLine) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) return { error: 'no-view', text: '', lines: 0 };
+
+    const doc = cmView.state.doc;
+    if (targetLine > doc.lines) {
+      return { error: 'out-of-range', text: '', lines: doc.lines as number };
+    }
+    return { error: null, text: doc.line(targetLine).text as string, lines: doc.lines as number };
+  }, lineNumber);
+
+  if (result.error === null) {
+    return result.text;
+  }
+  if (result.error === 'out-of-range') {
+    throw new Error(`Line ${lineNumber} is out of range (document has ${result.lines} lines)`);
+  }
+  throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+}
+
+/**
+ * Get the document text between two offsets.
+ */
+export async function getTextInRange(view: Locator, range: DocumentRange): Promise<string> {
+  if (range.from < 0 || range.to < range.from) {
+    throw new Error(`Invalid range: from=${range.from}, to=${range.to}`);
+  }
+
+  const result = await view.evaluate((el, { from, to }) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) return { error: 'no-view', text: '', length: 0 };
+
+    const doc = cmView.state.doc;
+    if (to > doc.length) {
+      return { error: 'out-of-range', text: '', length: doc.length as number };
+    }
+    return { error: null, text: doc.sliceString(from, to) as string, length: doc.length as number };
+  }, range);
+
+  if (result.error === null) {
+    return result.text;
+  }
+  if (result.error === 'out-of-range') {
+    throw new Error(
+      `Range ${range.from}-${range.to} is out of bounds (document length is ${result.length})`
+    );
+  }
+  throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+}
+
+/**
+ * Find every match of a string or pattern in the document, line by line.
+ *
+ * Searches CodeMirror's state, so lines outside the viewport are included. Matches don't
+ * span line breaks or overlap, so `'aa'` matches `'aaaa'` twice. A RegExp finds every
+ * match on a line (a `g` flag is not needed).
+ */
+export async function findLines(view: Locator, query: string | RegExp): Promise<LineMatch[]> {
+  if (query === '') {
+    throw new Error('Search text must not be empty');
+  }
+  const pattern = typeof query === 'string' ? null : { source: query.source, flags: query.flags };
+
+  const matches = await view.evaluate(
+    (el, { text, pattern }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state?.doc) return null;
+
+      const doc = cmView.state.doc;
+      const flags = pattern ? pattern.flags.replace(/[gy]/g, '') + 'g' : '';
+      const regexp = pattern ? new RegExp(pattern.source, flags) : null;
+      const found: {
+        from: number;
+        to: number;
+        line: number;
+        col: number;
+        text: string;
+        lineText: string;
+      }[] = [];
+
+      for (let lineNumber = 1; lineNumber <= doc.lines; lineNumber++) {
+        const line = doc.line(lineNumber);
+        const lineText: string = line.text;
+        const add = (col: number, matched: string) =>
+          found.push({
+            from: line.from + col,
+            to: line.from + col + matched.length,
+            line: lineNumber,
+            col,
+            text: matched,
+            lineText,
+          });
+
+        if (regexp) {
+          regexp.lastIndex = 0;
+          for (let m = regexp.exec(lineText); m; m = regexp.exec(lineText)) {
+            add(m.index, m[0]);
+            // Avoid looping forever on empty matches
+            if (m[0] === '') regexp.lastIndex++;
+          }
+        } else {
+          let col = lineText.indexOf(text);
+          while (col !== -1) {
+            add(col, text);
+            col = lineText.indexOf(text, col + text.length);
+          }
+        }
+      }
+      return found;
+    },
+    { text: typeof query === 'string' ? query : '', pattern }
+  );
+
+  if (matches === null) {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+  return matches;
+}
+
+/**
+ * Check text against an expected string (exact) or RegExp.
+ * `lastIndex` is reset first, so `g` and `y` patterns give the same result on every poll.
+ */
+export function textMatches(text: string, expected: string | RegExp): boolean {
+  if (typeof expected === 'string') return text === expected;
+  expected.lastIndex = 0;
+  return expected.test(text);
+}
@@ -0,0 +1,149 @@
+import type { Locator } from '@playwright/test';
+import type { DocumentPosition, DocumentRange, EditOptions } from './types.js';
+
+/**
+ * A change to dispatch, expressed either in offsets or in line/column positions.
+ * Positions are resolved to offsets inside the page against the current state.
+ */
+type ChangeSpec =
+  | { kind: 'replaceAll'; insert: string }
+  | { kind: 'insertAt'; line: number; col: number; insert: string }
+  | { kind: 'replaceRange'; from: number; to: number; insert: string }
+  | { kind: 'deleteLines'; first: number; last: number };
+
+/**
+ * Resolve a change in the page and dispatch it as a single CodeMirror transaction.
+ */
+async function dispatchChange(
+  view: Locator,
+  change: ChangeSpec,
+  options: EditOptions
+): Promise<void> {
+  const error = await view.evaluate(
+    (el, { change, userEvent }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state?.doc || !cmView.dispatch) {
+        return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+      }
+
+      const doc = cmView.state.doc;
+      let changes: { from: number; to?: number; insert?: string };
+
+      switch (change.kind) {
+        case 'replaceAll':
+          changes = { from: 0, to: doc.length, insert: change.insert };
+          break;
+        case 'insertAt': {
+          if (change.line > doc.lines) {
+            return `Line ${change.line} is out of range (document has ${doc.lines} lines)`;
+          }
+          const line = doc.line(change.line);
+          if (change.col > line.length) {
+            return `Column ${change.col} is out of range (line ${change.line} has ${line.length} characters)`;
+          }
+          changes = { from: line.from + change.col, insert: change.insert };
+          break;
+        }
+        case 'replaceRange':
+          if (change.to > doc.length) {
+            return `Range ${change.from}-${change.to} is out of bounds (document length is ${doc.length})`;
+          }
+          changes = { from: change.from, to: change.to, insert: change.insert };
+          break;
+        case 'deleteLines': {
+          if (change.last > doc.lines) {
+            return `Line ${change.last} is out of range (document has ${doc.lines} lines)`;
+          }
+          const first = doc.line(change.first);
+          const last = doc.line(change.last);
+          // Remove the trailing line break, or the preceding one when deleting to the end
+          if (last.number < doc.lines) {
+            changes = { from: first.from, to: last.to + 1 };
+          } else {
+            changes = { from: Math.max(0, first.from - 1), to: last.to };
+          }
+          break;
+        }
+      }
+
+      cmView.dispatch(userEvent === undefined ? { changes } : { changes, userEvent });
+      return null;
+    },
+    { change, userEvent: options.userEvent }
+  );
+
+  if (error !== null) {
+    throw new Error(error);
+  }
+}
+
+/**
+ * Replace the whole document text.
+ */
+export async function setText(
+  view: Locator,
+  text: string,
+  options: EditOptions = {}
+): Promise<void> {
+  await dispatchChange(view, { kind: 'replaceAll', insert: text }, options);
+}
+
+/**
+ * Insert text at a line/column position.
+ */
+export async function insertAt(
+  view: Locator,
+  position: DocumentPosition,
+  text: string,
+  options: EditOptions = {}
+): Promise<void> {
+  if (position.line < 1) {
+    throw new Error(`Line number must be >= 1, got ${position.line}`);
+  }
+  if (position.col < 0) {
+    throw new Error(`Column must be >= 0, got ${position.col}`);
+  }
+  await dispatchChange(
+    view,
+    { kind: 'insertAt', line: position.line, col: position.col, insert: text },
+    options
+  );
+}
+
+/**
+ * Replace the text between two offsets.
+ */
+export async function replaceRange(
+  view: Locator,
+  range: DocumentRange,
+  text: string,
+  options: EditOptions = {}
+): Promise<void> {
+  if (range.from < 0 || range.to < range.from) {
+    throw new Error(`Invalid range: from=${range.from}, to=${range.to}`);
+  }
+  await dispatchChange(
+    view,
+    { kind: 'replaceRange', from: range.from, to: range.to, insert: text },
+    options
+  );
+}
+
+/**
+ * Delete a range of whole lines, including their line breaks.
+ */
+export async function deleteLines(
+  view: Locator,
+  firstLine: number,
+  lastLine: number,
+  options: EditOptions = {}
+): Promise<void> {
+  if (firstLine < 1) {
+    throw new Error(`Line number must be >= 1, got ${firstLine}`);
+  }
+  if (lastLine < firstLine) {
+    throw new Error(`Last line must be >= first line, got ${firstLine}-${lastLine}`);
+  }
+  await dispatchChange(view, { kind: 'deleteLines', first: firstLine, last: lastLine }, options);
+}
@@ -0,0 +1,108 @@
+import type { Locator } from '@playwright/test';
+import type { CMEditorSource, EditorQuery } from './types.js';
+
+/**
+ * Describe a query for error messages (`label "Main", host #left-pane`).
+ */
+function describeQuery(query: EditorQuery): string {
+  const parts: string[] = [];
+  if (query.label !== undefined) parts.push(`label ${formatText(query.label)}`);
+  if (query.hostId !== undefined) parts.push(`host #${query.hostId}`);
+  if (query.containingText !== undefined) {
+    parts.push(`text ${formatText(query.containingText)}`);
+  }
+  return parts.join(', ');
+}
+
+function formatText(text: string | RegExp): string {
+  return typeof text === 'string' ? `"${text}"` : String(text);
+}
+
+/**
+ * Locator for the `.cm-editor` elements matching the label and host parts of a query.
+ *
+ * A label matches when the editor content (`aria-label`, `aria-labelledby` or a
+ * `<label>`) or the editor element itself is labelled with it.
+ */
+export function editorCandidates(source: CMEditorSource, query: EditorQuery): Locator {
+  let editors =
+    query.hostId !== undefined
+      ? source.locator(`[id="${query.hostId.replace(/["\\]/g, '\\$&')}"] .cm-editor`)
+      : source.locator('.cm-editor');
+
+  if (query.label !== undefined) {
+    // `has` locators are matched relative to each editor, so build them from the page
+    const page = 'page' in source ? source.page() : source;
+    const labelled = page.getByLabel(query.label, { exact: true });
+    editors = editors.filter({ has: labelled }).or(editors.and(labelled));
+  }
+
+  return editors;
+}
+
+/**
+ * Find the single editor matching a query and return its `.cm-editor` locator.
+ *
+ * Label and host queries stay lazy locators, so the result follows the editor when the
+ * layout changes. Text queries read each candidate's document from `cmView.state`
+ * (falling back to the rendered content), so text outside the viewport is found; the
+ * matching editor is then picked by its index among the candidates.
+ *
+ * Polls until at least one editor matches or the timeout expires, and throws if no
+ * editor or more than one editor matches.
+ */
+export async function findEditorView(
+  source: CMEditorSource,
+  query: EditorQuery,
+  timeout = 5000
+): Promise<Locator> {
+  if (
+    query.label === undefined &&
+    query.hostId === undefined &&
+    query.containingText === undefined
+  ) {
+    throw new Error('CMEditor.find() needs at least one of label, hostId or containingText');
+  }
+
+  const candidates = editorCandidates(source, query);
+  const text =
+    query.containingText === undefined
+      ? null
+      : typeof query.containingText === 'string'
+        ? { source: query.containingText, flags: '', regexp: false }
+        : { source: query.containingText.source, flags: query.containingText.flags, regexp: true };
+
+  const deadline = Date.now() + timeout;
+  let matches: number[] = [];
+  for (;;) {
+    matches = await candidates.evaluateAll((elements, text) => {
+      return elements.flatMap((el, index) => {
+        if (!text) return [index];
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const cmView = (el as any).cmView;
+        const content: string = cmView?.state?.doc
+          ? cmView.state.doc.toString()
+          : (el.querySelector('.cm-content')?.textContent ?? '');
+        const found = text.regexp
+          ? new RegExp(text.source, text.flags).test(content)
+          : content.includes(text.source);
+        return found ? [index] : [];
+      });
+    }, text);
+
+    if (matches.length > 0 || Date.now() >= deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  const description = describeQuery(query);
+  if (matches.length === 0) {
+    throw new Error(`No editor found matching ${description} within ${timeout}ms`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `${matches.length} editors match ${description}; add criteria to select a single editor`
+    );
+  }
+
+  return text ? candidates.nth(matches[0]) : candidates;
+}
@@ -1,11 +1,60 @@
-import { expect as baseExpect } from '@playwright/test';
+import { expect as baseExpect, type ExpectMatcherState } from '@playwright/test';
 import type {
+  CMEditorSource,
+  CompletionAssertionOptions,
+  CompletionOption,
+  DocumentPosition,
+  EditorCountAssertionOptions,
+  EditorSelectionInfo,
+  EditorSnapshotAssertionOptions,
+  ExtensionAssertionOptions,
+  FirstVisibleLineAssertionOptions,
+  FoldAssertionOptions,
+  FoldedRange,
   LineCountAssertionOptions,
+  LineRange,
+  LintAssertionOptions,
+  LintDiagnostic,
+  LintDiagnosticMatcher,
+  MergeAssertionOptions,
+  MergeChunk,
   PartialScrollPosition,
+  PerformanceBudgetOptions,
+  PerformanceReport,
   ScrollabilityAssertionOptions,
   ScrollAssertionOptions,
+  SearchAssertionOptions,
+  SearchMatch,
+  SelectionAssertionOptions,
+  SelectionRangeSpec,
+  StateAssertionOptions,
+  SyntaxAssertionOptions,
+  SyntaxNodeInfo,
+  TextAssertionOptions,
+  TokenSpan,
+  TooltipAssertionOptions,
+  TooltipInfo,
+  ViewportAssertionOptions,
+  ViewportLineInfo,
+  ViewportStabilityAssertionOptions,
 } from './types.js';
 import { CMEditor } from './cm-editor.js';
+import type { CMMergeView } from './cm-merge-view.js';
+import { formatUnifiedDiff } from './diff.js';
+import { textMatches } from './document.js';
+import { formatSelection, selectionRangeMatches } from './selection.js';
+import {
+  formatStateNotation,
+  parseStateNotation,
+  stateMatches,
+  type ParsedState,
+} from './state-notation.js';
+import { lintDiagnosticMatches } from './lint.js';
+import { tooltipContains } from './hover.js';
+import { formatSyntaxNode, syntaxNodeMatches } from './syntax.js';
+import { formatLineRanges } from './extension-lines.js';
+import { toLineRanges } from './viewport.js';
+import { anchorViewport, releaseViewportAnchor } from './scroll.js';
 
 /**
  * Extended Playwright expect with CodeMirror-specific matchers.
@@ -199,6 +248,1663 @@ export const expect = baseExpect.extend({
     };
   },
 
+  /**
+   * Assert that the full document text equals the expected string (or matches a RegExp).
+   * Reads from CodeMirror's state, so virtualized lines are included.
+   * Shows a unified diff on failure.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected document text, or a RegExp it must match
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveDocumentText('const a = 1;\nconst b = 2;');
+   * await expect(editor).toHaveDocumentText(/^\/\/ Header/);
+   * ```
+   */
+  async toHaveDocumentText(
+    editor: CMEditor,
+    expected: string | RegExp,
+    options: TextAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveDocumentText';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: string | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.text();
+            return textMatches(lastActual, expected);
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected document text NOT to ${typeof expected === 'string' ? 'be' : 'match'} ${
+        typeof expected === 'string' ? JSON.stringify(expected) : String(expected)
+      }`;
+    } catch {
+      pass = false;
+      message =
+        typeof expected === 'string'
+          ? `Expected document text to match:\n\n${formatUnifiedDiff(expected, lastActual ?? '')}`
+          : `Expected document text to match ${String(expected)}\nReceived: ${JSON.stringify(lastActual)}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that a document line has the expected text (or matches a RegExp).
+   * Reads from CodeMirror's state, so the line does not need to be rendered.
+   *
+   * @param editor - CMEditor instance
+   * @param lineNumber - 1-based line number
+   * @param expected - Expected line text (without line break), or a RegExp it must match
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveLineText(4200, '// Line 4200');
+   * await expect(editor).toHaveLineText(1, /^import/);
+   * ```
+   */
+  async toHaveLineText(
+    editor: CMEditor,
+    lineNumber: number,
+    expected: string | RegExp,
+    options: TextAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveLineText';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: string | undefined;
+    let lastError: string | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            try {
+              lastActual = await editor.lineText(lineNumber);
+              lastError = undefined;
+            } catch (error) {
+              lastActual = undefined;
+              lastError = error instanceof Error ? error.message : String(error);
+              return false;
+            }
+            return textMatches(lastActual, expected);
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected line ${lineNumber} text NOT to ${typeof expected === 'string' ? 'be' : 'match'} ${
+        typeof expected === 'string' ? JSON.stringify(expected) : String(expected)
+      }`;
+    } catch {
+      pass = false;
+      if (lastError !== undefined) {
+        message = `Expected line ${lineNumber} text to match, but: ${lastError}`;
+      } else if (typeof expected === 'string') {
+        message =
+          `Expected line ${lineNumber} text to match:\n\n` +
+          formatUnifiedDiff(expected, lastActual ?? '');
+      } else {
+        message =
+          `Expected line ${lineNumber} text to match ${String(expected)}\n` +
+          `Received: ${JSON.stringify(lastActual)}`;
+      }
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that the document text contains the expected substring.
+   * Reads from CodeMirror's state, so virtualized lines are included.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Substring that must appear in the document
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toContainDocumentText('export function example()');
+   * ```
+   */
+  async toContainDocumentText(
+    editor: CMEditor,
+    expected: string,
+    options: TextAssertionOptions = {}
+  ) {
+    const assertionName = 'toContainDocumentText';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: string | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.text();
+            return lastActual.includes(expected);
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected document text NOT to contain ${JSON.stringify(expected)}`;
+    } catch {
+      pass = false;
+      const received = lastActual ?? '';
+      message =
+        `Expected document text to contain: ${JSON.stringify(expected)}\n` +
+        `Received (${received.split('\n').length} lines): ${JSON.stringify(
+          received.length > 500 ? `${received.slice(0, 500)}…` : received
+        )}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that the selection consists of exactly the expected ranges, in document order.
+   * Points may be offsets or `{ line, col }` positions; omit `head` to expect a cursor.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected range or ranges
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveSelection({ anchor: 0, head: 5 });
+   * await expect(editor).toHaveSelection([
+   *   { anchor: { line: 1, col: 0 } },
+   *   { anchor: { line: 2, col: 0 } },
+   * ]);
+   * ```
+   */
+  async toHaveSelection(
+    editor: CMEditor,
+    expected: SelectionRangeSpec | SelectionRangeSpec[],
+    options: SelectionAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveSelection';
+    const timeout = options.timeout ?? 5000;
+    const expectedRanges = Array.isArray(expected) ? expected : [expected];
+
+    let lastActual: EditorSelectionInfo | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.selection();
+            const { ranges } = lastActual;
+            return (
+              ranges.length === expectedRanges.length &&
+              ranges.every((range, i) => selectionRangeMatches(range, expectedRanges[i]))
+            );
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected selection NOT to be ${JSON.stringify(expected)}`;
+    } catch {
+      pass = false;
+      message =
+        `Expected selection: ${JSON.stringify(expected)}\n` +
+        `Received: ${lastActual ? formatSelection(lastActual) : 'undefined'}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that the main selection is a cursor (empty range) at the given position.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected cursor position (1-based line, 0-based column)
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await page.keyboard.press('End');
+   * await expect(editor).toHaveCursorAt({ line: 1, col: 25 });
+   * ```
+   */
+  async toHaveCursorAt(
+    editor: CMEditor,
+    expected: DocumentPosition,
+    options: SelectionAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveCursorAt';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: EditorSelectionInfo | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.selection();
+            const main = lastActual.ranges[lastActual.mainIndex];
+            return (
+              main.empty &&
+              main.headPosition.line === expected.line &&
+              main.headPosition.col === expected.col
+            );
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected cursor NOT to be at ${expected.line}:${expected.col}`;
+    } catch {
+      pass = false;
+      message =
+        `Expected cursor at: ${expected.line}:${expected.col}\n` +
+        `Received selection: ${lastActual ? formatSelection(lastActual) : 'undefined'}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the document text and selection together, written as a string with inline
+   * markers: `|` is a cursor, and a selection runs from its anchor `<` to its head `>`.
+   * Ranges are compared in document order; the main range is not compared.
+   * Shows a unified diff of the expected and received notation strings on failure.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected document text with selection markers
+   * @param options - Assertion options (custom markers, timeout)
+   * @throws Error if the expected markers are unbalanced or missing
+   *
+   * @example
+   * ```typescript
+   * await editor.setState('function f() {|}');
+   * await page.keyboard.press('Enter');
+   * await expect(editor).toMatchState('function f() {\n  |\n}');
+   * ```
+   */
+  async toMatchState(editor: CMEditor, expected: string, options: StateAssertionOptions = {}) {
+    const assertionName = 'toMatchState';
+    const timeout = options.timeout ?? 5000;
+    const expectedState = parseStateNotation(expected, options.markers);
+    if (expectedState.ranges.length === 0) {
+      throw new Error(
+        'Expected state has no selection markers; use toHaveDocumentText() to compare text only'
+      );
+    }
+
+    let lastActual: ParsedState | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            const text = await editor.text();
+            const { ranges } = await editor.selection();
+            lastActual = { text, ranges: ranges.map(({ anchor, head }) => ({ anchor, head })) };
+            return stateMatches(lastActual, expectedState);
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected editor state NOT to be ${JSON.stringify(expected)}`;
+    } catch {
+      pass = false;
+      const received = lastActual
+        ? formatStateNotation(lastActual.text, lastActual.ranges, options.markers)
+        : '';
+      message =
+        received === expected
+          ? // Same string, different ranges: the document contains a marker character
+            `Expected editor state to match ${JSON.stringify(expected)}\n` +
+            'Received the same notation, but the document contains a marker; ' +
+            'pass different `markers` to tell them apart'
+          : `Expected editor state to match:\n\n${formatUnifiedDiff(expected, received)}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the number of selection ranges (cursors).
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected number of ranges
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveSelectionCount(3);
+   * ```
+   */
+  async toHaveSelectionCount(
+    editor: CMEditor,
+    expected: number,
+    options: SelectionAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveSelectionCount';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: EditorSelectionInfo | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.selection();
+            return lastActual.ranges.length;
+          },
+          { timeout }
+        )
+        .toBe(expected);
+
+      message = `Expected selection count NOT to be ${expected}`;
+    } catch {
+      pass = false;
+      message =
+        `Expected selection count: ${expected}\n` +
+        `Received: ${lastActual?.ranges.length} (${lastActual ? formatSelection(lastActual) : 'undefined'})`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.ranges.length,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that a fold joins lines `first` through `last`.
+   * Folds outside the viewport are included.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected first and last line of the fold
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.clickFoldGutter(2);
+   * await expect(editor).toHaveFoldedRange({ first: 2, last: 99 });
+   * ```
+   */
+  async toHaveFoldedRange(
+    editor: CMEditor,
+    expected: LineRange,
+    options: FoldAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveFoldedRange';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: FoldedRange[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.foldedRanges();
+            return lastActual.some(
+              (fold) => fold.first === expected.first && fold.last === expected.last
+            );
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected lines ${expected.first}-${expected.last} NOT to be folded`;
+    } catch {
+      pass = false;
+      const received = lastActual?.map((fold) => `${fold.first}-${fold.last}`).join(', ');
+      message =
+        `Expected folded range: ${expected.first}-${expected.last}\n` +
+        `Received folds: ${received || 'none'}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the number of folded ranges in the document.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected number of folds
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.unfoldAll();
+   * await expect(editor).toHaveFoldCount(0);
+   * ```
+   */
+  async toHaveFoldCount(
+    editor: CMEditor,
+    expected: number,
+    options: FoldAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveFoldCount';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: FoldedRange[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.foldedRanges();
+            return lastActual.length;
+          },
+          { timeout }
+        )
+        .toBe(expected);
+
+      message = `Expected fold count NOT to be ${expected}`;
+    } catch {
+      pass = false;
+      const received = lastActual?.map((fold) => `${fold.first}-${fold.last}`).join(', ');
+      message =
+        `Expected fold count: ${expected}\n` +
+        `Received: ${lastActual?.length} (${received || 'none'})`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.length,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that at least one lint diagnostic matches the given properties.
+   * Diagnostics outside the viewport are included. A string `message` matches
+   * as a substring.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Properties the diagnostic must have
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveLintDiagnostic({ line: 480, severity: 'error' });
+   * await expect(editor).toHaveLintDiagnostic({ message: /unused/ });
+   * ```
+   */
+  async toHaveLintDiagnostic(
+    editor: CMEditor,
+    expected: LintDiagnosticMatcher,
+    options: LintAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveLintDiagnostic';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: LintDiagnostic[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.lintDiagnostics();
+            return lastActual.some((diagnostic) => lintDiagnosticMatches(diagnostic, expected));
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected NO lint diagnostic matching ${JSON.stringify(expected)}`;
+    } catch {
+      pass = false;
+      const received = lastActual
+        ?.map((d) => `  ${d.line}:${d.col} ${d.severity}: ${d.message}`)
+        .join('\n');
+      message =
+        `Expected a lint diagnostic matching: ${JSON.stringify({
+          ...expected,
+          message: expected.message instanceof RegExp ? String(expected.message) : expected.message,
+        })}\n` +
+        `Received diagnostics:\n${received || '  none'}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the number of lint diagnostics in the document.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected number of diagnostics
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveLintDiagnosticCount(0);
+   * ```
+   */
+  async toHaveLintDiagnosticCount(
+    editor: CMEditor,
+    expected: number,
+    options: LintAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveLintDiagnosticCount';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: LintDiagnostic[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.lintDiagnostics();
+            return lastActual.length;
+          },
+          { timeout }
+        )
+        .toBe(expected);
+
+      message = `Expected lint diagnostic count NOT to be ${expected}`;
+    } catch {
+      pass = false;
+      message = `Expected lint diagnostic count: ${expected}\nReceived: ${lastActual?.length}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.length,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the number of matches of the search panel's current query in the whole
+   * document, including matches outside the viewport.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected number of matches
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.searchFor('console.log');
+   * await expect(editor).toHaveSearchMatches(96);
+   * ```
+   */
+  async toHaveSearchMatches(
+    editor: CMEditor,
+    expected: number,
+    options: SearchAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveSearchMatches';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: SearchMatch[] | undefined;
+    let lastError: string | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            try {
+              lastActual = await editor.searchMatches();
+              lastError = undefined;
+            } catch (error) {
+              lastActual = undefined;
+              lastError = error instanceof Error ? error.message : String(error);
+              return -1;
+            }
+            return lastActual.length;
+          },
+          { timeout }
+        )
+        .toBe(expected);
+
+      message = `Expected search match count NOT to be ${expected}`;
+    } catch {
+      pass = false;
+      if (lastError !== undefined) {
+        message = `Expected search match count: ${expected}\nBut: ${lastError}`;
+      } else {
+        const lines = (lastActual ?? []).map((m) => m.line);
+        const shown = lines.length > 20 ? `${lines.slice(0, 20).join(', ')}, …` : lines.join(', ');
+        message =
+          `Expected search match count: ${expected}\n` +
+          `Received: ${lines.length}${shown ? ` (on lines ${shown})` : ''}`;
+      }
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.length,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the labels of the options in the autocompletion tooltip, in display order.
+   * An empty array asserts that no options are shown.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected option labels
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.triggerCompletion({ line: 2, col: 3 });
+   * await expect(editor).toHaveCompletionOptions(['console', 'const', 'continue']);
+   * ```
+   */
+  async toHaveCompletionOptions(
+    editor: CMEditor,
+    expected: string[],
+    options: CompletionAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveCompletionOptions';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: string[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = (await editor.completionOptions()).map((option) => option.label);
+            return (
+              lastActual.length === expected.length &&
+              lastActual.every((label, i) => label === expected[i])
+            );
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected completion options NOT to be ${JSON.stringify(expected)}`;
+    } catch {
+      pass = false;
+      const received =
+        lastActual && lastActual.length > 0 ? JSON.stringify(lastActual) : '(tooltip not open)';
+      message = `Expected completion options: ${JSON.stringify(expected)}\nReceived: ${received}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the label of the selected option in the autocompletion tooltip.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected label of the selected option
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.selectCompletion('const');
+   * await expect(editor).toHaveSelectedCompletion('const');
+   * ```
+   */
+  async toHaveSelectedCompletion(
+    editor: CMEditor,
+    expected: string,
+    options: CompletionAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveSelectedCompletion';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: CompletionOption[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.completionOptions();
+            return lastActual.find((option) => option.selected)?.label;
+          },
+          { timeout }
+        )
+        .toBe(expected);
+
+      message = `Expected selected completion NOT to be "${expected}"`;
+    } catch {
+      pass = false;
+      const selected = lastActual?.find((option) => option.selected);
+      const received = !lastActual?.length
+        ? '(tooltip not open)'
+        : selected
+          ? `"${selected.label}"`
+          : '(no option selected)';
+      message = `Expected selected completion: "${expected}"\nReceived: ${received}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.find((option) => option.selected)?.label,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that the editor shows a tooltip (of any kind), optionally one whose text
+   * contains a string or matches a pattern.
+   *
+   * @param editor - CMEditor instance
+   * @param options - Text to look for (`containing`) and timeout
+   *
+   * @example
+   * ```typescript
+   * await editor.hoverAt({ line: 12, col: 4 });
+   * await expect(editor).toHaveOpenTooltip({ containing: 'function greet' });
+   * ```
+   */
+  async toHaveOpenTooltip(editor: CMEditor, options: TooltipAssertionOptions = {}) {
+    const assertionName = 'toHaveOpenTooltip';
+    const timeout = options.timeout ?? 5000;
+    const { containing } = options;
+
+    let lastActual: TooltipInfo[] | undefined;
+    let pass = true;
+    let message: string;
+
+    const pattern = typeof containing === 'string' ? JSON.stringify(containing) : String(containing);
+    const described =
+      containing === undefined ? 'an open tooltip' : `a tooltip containing ${pattern}`;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.tooltips();
+            return lastActual.some(
+              (tooltip) => containing === undefined || tooltipContains(tooltip, containing)
+            );
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected editor NOT to have ${described}`;
+    } catch {
+      pass = false;
+      const received =
+        lastActual && lastActual.length > 0
+          ? lastActual.map((tooltip) => `  ${JSON.stringify(tooltip.text)}`).join('\n')
+          : '  (no tooltips)';
+      message = `Expected editor to have ${described}\nOpen tooltips:\n${received}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.map((tooltip) => tooltip.text),
+      expected: containing,
+    };
+  },
+
+  /**
+   * Assert that the highlighted span covering a position has a CSS class.
+   * The line is scrolled into view first if it isn't rendered.
+   *
+   * @param editor - CMEditor instance
+   * @param position - Position inside the token (1-based line, 0-based column)
+   * @param className - Expected CSS class (e.g. `tok-keyword`)
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveTokenClass({ line: 1, col: 0 }, 'tok-keyword');
+   * ```
+   */
+  async toHaveTokenClass(
+    editor: CMEditor,
+    position: DocumentPosition,
+    className: string,
+    options: SyntaxAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveTokenClass';
+    const timeout = options.timeout ?? 5000;
+    const where = `${position.line}:${position.col}`;
+
+    let lastActual: TokenSpan | undefined;
+    let lastError: string | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            try {
+              const tokens = await editor.tokensOnLine(position.line);
+              lastActual = tokens.find(
+                (token) => token.col <= position.col && position.col < token.col + token.text.length
+              );
+              lastError = undefined;
+            } catch (error) {
+              lastActual = undefined;
+              lastError = error instanceof Error ? error.message : String(error);
+            }
+            return lastActual?.classes.includes(className) ?? false;
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected token at ${where} NOT to have class "${className}"`;
+    } catch {
+      pass = false;
+      const received =
+        lastError ??
+        (lastActual
+          ? `${JSON.stringify(lastActual.text)} with classes [${lastActual.classes.join(', ')}]`
+          : 'no highlighted token at this position');
+      message = `Expected token at ${where} to have class "${className}"\nReceived: ${received}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.classes,
+      expected: className,
+    };
+  },
+
+  /**
+   * Assert the innermost syntax node at a position. Pass a name, or a path of names
+   * from the innermost node outwards to also check its ancestors.
+   *
+   * @param editor - CMEditor instance
+   * @param position - Position to resolve (1-based line, 0-based column)
+   * @param expected - Node name, or names from the innermost node outwards
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveSyntaxNodeAt({ line: 3, col: 14 }, 'String');
+   * await expect(editor).toHaveSyntaxNodeAt({ line: 3, col: 14 }, ['String', 'ArgList']);
+   * ```
+   */
+  async toHaveSyntaxNodeAt(
+    editor: CMEditor,
+    position: DocumentPosition,
+    expected: string | string[],
+    options: SyntaxAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveSyntaxNodeAt';
+    const timeout = options.timeout ?? 5000;
+    const where = `${position.line}:${position.col}`;
+    const expectedPath = Array.isArray(expected) ? expected.join(' < ') : expected;
+
+    let lastActual: SyntaxNodeInfo | undefined;
+    let lastError: string | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            try {
+              lastActual = await editor.syntaxNodeAt(position);
+              lastError = undefined;
+            } catch (error) {
+              lastActual = undefined;
+              lastError = error instanceof Error ? error.message : String(error);
+              return false;
+            }
+            return syntaxNodeMatches(lastActual, expected);
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected syntax node at ${where} NOT to be ${expectedPath}`;
+    } catch {
+      pass = false;
+      const received = lastError ?? (lastActual ? formatSyntaxNode(lastActual) : 'undefined');
+      message = `Expected syntax node at ${where}: ${expectedPath}\nReceived: ${received}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual ? formatSyntaxNode(lastActual) : undefined,
+      expected: expectedPath,
+    };
+  },
+
+  /**
+   * Assert exactly which document lines carry an extension entry. The whole document
+   * is scanned (see `linesWithExt()`), so lines outside the viewport count too.
+   * Expected ranges may overlap or touch; they are compared as sets of lines.
+   *
+   * @param editor - CMEditor instance
+   * @param extensionName - Name of the registered extension
+   * @param key - Key within the extension
+   * @param expected - Line ranges that should carry the entry (1-based, inclusive)
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(editor).toHaveExtOnLines('diff', 'lineAddition', [
+   *   { first: 5, last: 7 },
+   *   { first: 2400, last: 2410 },
+   * ]);
+   * ```
+   */
+  async toHaveExtOnLines(
+    editor: CMEditor,
+    extensionName: string,
+    key: string,
+    expected: LineRange[],
+    options: ExtensionAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveExtOnLines';
+    const timeout = options.timeout ?? 5000;
+
+    // Unknown extensions or keys are configuration errors, not something to wait for
+    editor.getRegistry().getSelector(extensionName, key);
+
+    const expectedLines = new Set<number>();
+    for (const range of expected) {
+      for (let line = range.first; line <= range.last; line++) expectedLines.add(line);
+    }
+    const expectedRanges = toLineRanges(Array.from(expectedLines).sort((a, b) => a - b));
+    const expectedText = formatLineRanges(expectedRanges);
+
+    let lastActual: LineRange[] | undefined;
+    let lastError: string | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            try {
+              lastActual = await editor.linesWithExt(extensionName, key);
+              lastError = undefined;
+            } catch (error) {
+              lastActual = undefined;
+              lastError = error instanceof Error ? error.message : String(error);
+              return false;
+            }
+            return formatLineRanges(lastActual) === expectedText;
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected "${extensionName}.${key}" NOT to be on lines ${expectedText}`;
+    } catch {
+      pass = false;
+      const received = lastError ?? (lastActual ? formatLineRanges(lastActual) : 'undefined');
+      message =
+        `Expected "${extensionName}.${key}" on lines: ${expectedText}\n` +
+        `Received lines: ${received}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected: expectedRanges,
+    };
+  },
+
+  /**
+   * Assert the number of CodeMirror editors (`.cm-editor`) in a page or locator.
+   *
+   * @param source - Playwright Page or Locator to count editors in
+   * @param expected - Expected number of editors
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(page).toHaveEditorCount(6);
+   * await expect(page.locator('#left-pane')).toHaveEditorCount(2);
+   * ```
+   */
+  async toHaveEditorCount(
+    source: CMEditorSource,
+    expected: number,
+    options: EditorCountAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveEditorCount';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: number | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await source.locator('.cm-editor').count();
+            return lastActual;
+          },
+          { timeout }
+        )
+        .toBe(expected);
+
+      message = `Expected editor count NOT to be ${expected}`;
+    } catch {
+      pass = false;
+      message = `Expected editor count: ${expected}\nReceived: ${lastActual}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the number of changed chunks in a merge view (whole document).
+   *
+   * @param merge - CMMergeView instance
+   * @param expected - Expected number of chunks
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * const merge = CMMergeView.from(page);
+   * await expect(merge).toHaveChunkCount(3);
+   * await merge.acceptChunk(0);
+   * await expect(merge).toHaveChunkCount(2);
+   * ```
+   */
+  async toHaveChunkCount(
+    merge: CMMergeView,
+    expected: number,
+    options: MergeAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveChunkCount';
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: MergeChunk[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await merge.chunks();
+            return lastActual.length;
+          },
+          { timeout }
+        )
+        .toBe(expected);
+
+      message = `Expected chunk count NOT to be ${expected}`;
+    } catch {
+      pass = false;
+      message = `Expected chunk count: ${expected}\nReceived: ${lastActual?.length}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual?.length,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that a merge view has a chunk covering the given lines. Give the lines on
+   * side A, side B or both; `null` means the chunk has no lines on that side.
+   *
+   * @param merge - CMMergeView instance
+   * @param expected - Line ranges of the chunk on side A and/or B
+   * @param options - Assertion options (timeout)
+   *
+   * @example
+   * ```typescript
+   * await expect(merge).toHaveChunk({ a: { first: 10, last: 12 }, b: { first: 10, last: 11 } });
+   * await expect(merge).toHaveChunk({ a: null, b: { first: 40, last: 42 } }); // Insertion
+   * ```
+   */
+  async toHaveChunk(
+    merge: CMMergeView,
+    expected: { a?: LineRange | null; b?: LineRange | null },
+    options: MergeAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveChunk';
+    const timeout = options.timeout ?? 5000;
+
+    const sameLines = (actual: LineRange | null, wanted: LineRange | null | undefined) =>
+      wanted === undefined ||
+      (actual === null
+        ? wanted === null
+        : wanted !== null && actual.first === wanted.first && actual.last === wanted.last);
+    const formatSide = (range: LineRange | null | undefined) =>
+      range === undefined ? 'any' : range === null ? 'none' : `${range.first}-${range.last}`;
+    const formatChunk = (chunk: { a?: LineRange | null; b?: LineRange | null }) =>
+      `a: ${formatSide(chunk.a)}, b: ${formatSide(chunk.b)}`;
+
+    let lastActual: MergeChunk[] | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await merge.chunks();
+            return lastActual.some(
+              (chunk) => sameLines(chunk.a, expected.a) && sameLines(chunk.b, expected.b)
+            );
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected no chunk with ${formatChunk(expected)}`;
+    } catch {
+      pass = false;
+      const received = lastActual?.map((chunk) => `  ${formatChunk(chunk)}`).join('\n');
+      message =
+        `Expected a chunk with ${formatChunk(expected)}\n` +
+        `Received chunks:\n${received || '  none'}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that a line is visible in the viewport. Retries until the line scrolls
+   * into view, so it can follow scroll animations and programmatic scrolling.
+   *
+   * @param editor - CMEditor instance
+   * @param lineNumber - 1-based line number
+   * @param options - Assertion options (partial visibility, timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.findNext();
+   * await expect(editor).toHaveLineVisible(480);
+   * await expect(editor).toHaveLineVisible(480, { partial: true });
+   * ```
+   */
+  async toHaveLineVisible(
+    editor: CMEditor,
+    lineNumber: number,
+    options: ViewportAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveLineVisible';
+    const partial = options.partial ?? false;
+    const timeout = options.timeout ?? 5000;
+
+    if (lineNumber < 1) {
+      throw new Error(`Line number must be >= 1, got ${lineNumber}`);
+    }
+    const visibility = partial ? 'partially visible' : 'fully visible';
+
+    let lastActual: ViewportLineInfo | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.linesInViewport();
+            const ranges = partial ? lastActual.partiallyVisible : lastActual.fullyVisible;
+            return ranges.some((range) => range.first <= lineNumber && range.last >= lineNumber);
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected line ${lineNumber} NOT to be ${visibility}`;
+    } catch {
+      pass = false;
+      message =
+        `Expected line ${lineNumber} to be ${visibility}\n` +
+        `Received viewport: ${JSON.stringify(lastActual)}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected: lineNumber,
+    };
+  },
+
+  /**
+   * Assert that every line of a range is visible in the viewport.
+   * Lines hidden inside a fold are never visible, so a range spanning a fold fails.
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Line range that should be visible (1-based, inclusive)
+   * @param options - Assertion options (partial visibility, timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollToLine(100);
+   * await expect(editor).toHaveLinesInViewport({ first: 100, last: 110 });
+   * ```
+   */
+  async toHaveLinesInViewport(
+    editor: CMEditor,
+    expected: LineRange,
+    options: ViewportAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveLinesInViewport';
+    const partial = options.partial ?? false;
+    const timeout = options.timeout ?? 5000;
+
+    if (expected.first < 1 || expected.last < expected.first) {
+      throw new Error(`Invalid line range ${expected.first}-${expected.last}`);
+    }
+    const visibility = partial ? 'partially visible' : 'fully visible';
+    const expectedText = formatLineRanges([expected]);
+
+    let lastActual: ViewportLineInfo | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.linesInViewport();
+            const ranges = partial ? lastActual.partiallyVisible : lastActual.fullyVisible;
+            return ranges.some(
+              (range) => range.first <= expected.first && range.last >= expected.last
+            );
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected lines ${expectedText} NOT to be ${visibility}`;
+    } catch {
+      pass = false;
+      message =
+        `Expected lines ${expectedText} to be ${visibility}\n` +
+        `Received viewport: ${JSON.stringify(lastActual)}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert the first visible line of the viewport, as returned by `firstVisibleLine()`
+   * (the first line with any part in view).
+   *
+   * @param editor - CMEditor instance
+   * @param expected - Expected 1-based line number
+   * @param options - Assertion options (tolerance in lines, timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollToLine(500);
+   * await expect(editor).toHaveFirstVisibleLine(500);
+   * await expect(editor).toHaveFirstVisibleLine(500, { tolerance: 1 });
+   * ```
+   */
+  async toHaveFirstVisibleLine(
+    editor: CMEditor,
+    expected: number,
+    options: FirstVisibleLineAssertionOptions = {}
+  ) {
+    const assertionName = 'toHaveFirstVisibleLine';
+    const tolerance = options.tolerance ?? 0;
+    const timeout = options.timeout ?? 5000;
+
+    let lastActual: ViewportLineInfo | undefined;
+    let pass = true;
+    let message: string;
+
+    try {
+      await baseExpect
+        .poll(
+          async () => {
+            lastActual = await editor.linesInViewport();
+            const first = lastActual.partiallyVisible[0]?.first;
+            return first !== undefined && Math.abs(first - expected) <= tolerance;
+          },
+          { timeout }
+        )
+        .toBe(true);
+
+      message = `Expected first visible line NOT to be ${expected}`;
+    } catch {
+      pass = false;
+      message =
+        `Expected first visible line: ${expected}\n` +
+        `Received first visible line: ${lastActual?.partiallyVisible[0]?.first ?? 'none'}\n` +
+        `Received viewport: ${JSON.stringify(lastActual)}\n` +
+        `Tolerance: ${tolerance}`;
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: lastActual,
+      expected,
+    };
+  },
+
+  /**
+   * Assert that the visible text doesn't jump while an action runs, e.g. when content
+   * is inserted or removed above the viewport.
+   *
+   * The first visible line and its pixel offset are recorded before the action. The line
+   * is tracked through the action's transactions, so it's found again after lines are
+   * added above it. After the action and `waitForScrollIdle`, the line must be at the
+   * same offset within the tolerance. The assertion can't be nested in itself for the
+   * same editor.
+   *
+   * @param editor - CMEditor instance
+   * @param action - Action to run, e.g. applying a remote edit
+   * @param options - Assertion options (pixel tolerance, scroll idle timeout)
+   *
+   * @example
+   * ```typescript
+   * await editor.scrollToLine(500);
+   * await expect(editor).toKeepViewportStableDuring(async () => {
+   *   await editor.insertAt({ line: 1, col: 0 }, '// Remote edit\n'.repeat(20));
+   * });
+   * ```
+   */
+  async toKeepViewportStableDuring(
+    editor: CMEditor,
+    action: () => Promise<unknown>,
+    options: ViewportStabilityAssertionOptions = {}
+  ) {
+    const assertionName = 'toKeepViewportStableDuring';
+    const tolerance = options.tolerance ?? 1;
+    const timeout = options.timeout ?? 1000;
+
+    const before = await anchorViewport(editor.view);
+    try {
+      await action();
+      await editor.waitForScrollIdle(timeout);
+    } catch (error) {
+      // Release the anchor, but report the action's error rather than a release error
+      await releaseViewportAnchor(editor.view).catch(() => undefined);
+      throw error;
+    }
+    const after = await releaseViewportAnchor(editor.view);
+
+    const pass = Math.abs(after.offset - before.offset) <= tolerance;
+    const moved = after.line === before.line ? '' : ` (now line ${after.line})`;
+    const message = pass
+      ? `Expected line ${before.line} NOT to stay at ${Math.round(before.offset)}px`
+      : `Expected line ${before.line}${moved} to stay at ${Math.round(before.offset)}px ` +
+        `from the top of the viewport\n` +
+        `Received: ${Math.round(after.offset)}px (moved ` +
+        `${Math.round(after.offset - before.offset)}px)\n` +
+        `Tolerance: ${tolerance}`;
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: after,
+      expected: before,
+    };
+  },
+
+  /**
+   * Assert that the editor's text snapshot matches the stored snapshot file.
+   *
+   * The snapshot comes from `editor.snapshot()` and is compared with Playwright's
+   * `toMatchSnapshot()`, so files live next to the test (`<test file>-snapshots/`),
+   * missing ones are written on the first run, and `--update-snapshots` updates them.
+   * Failures show a text diff. Paths follow the config's `snapshotPathTemplate`; the
+   * default template adds a platform suffix, which text snapshots don't need.
+   *
+   * `.not` is rejected: it would write a missing snapshot file and pass, or write diff
+   * artifacts for a mismatch.
+   *
+   * @param editor - CMEditor instance
+   * @param nameOrOptions - Snapshot file name, or options (name, sections to include)
+   *
+   * @example
+   * ```typescript
+   * await editor.setState('function f() {|}');
+   * await page.keyboard.press('Enter');
+   * await expect(editor).toMatchEditorSnapshot();
+   * await expect(editor).toMatchEditorSnapshot({ name: 'after-fold.txt', viewport: false });
+   * ```
+   */
+  async toMatchEditorSnapshot(
+    this: ExpectMatcherState,
+    editor: CMEditor,
+    nameOrOptions: string | EditorSnapshotAssertionOptions = {}
+  ) {
+    const assertionName = 'toMatchEditorSnapshot';
+    if (this.isNot) {
+      throw new Error(
+        'toMatchEditorSnapshot() does not support .not (compare editor.snapshot() instead)'
+      );
+    }
+    const { name, ...snapshotOptions } =
+      typeof nameOrOptions === 'string' ? { name: nameOrOptions } : nameOrOptions;
+
+    const actual = await editor.snapshot(snapshotOptions);
+    let pass = true;
+    let message: string;
+
+    try {
+      if (name === undefined) {
+        baseExpect(actual).toMatchSnapshot();
+      } else {
+        baseExpect(actual).toMatchSnapshot(name);
+      }
+      message = 'Expected editor NOT to match the stored snapshot';
+    } catch (error) {
+      pass = false;
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual,
+      expected: name,
+    };
+  },
+
+  /**
+   * Assert that an action measured with `measure()` took at most `ms` milliseconds.
+   *
+   * By default the budget applies to the time CodeMirror spent in the page (the update
+   * and measure cycle totals), which doesn't depend on Playwright's round trips. Pass
+   * `{ time: 'wall' }` to check the wall-clock duration of the whole action instead.
+   *
+   * @param report - Report returned by `editor.measure()`
+   * @param ms - Time budget in milliseconds
+   * @param options - Which time to check
+   *
+   * @example
+   * ```typescript
+   * const report = await editor.measure(() => page.keyboard.type('const x = 1;'));
+   * expect(report).toCompleteWithin(50);
+   * expect(report).toCompleteWithin(2000, { time: 'wall' });
+   * ```
+   */
+  toCompleteWithin(report: PerformanceReport, ms: number, options: PerformanceBudgetOptions = {}) {
+    const assertionName = 'toCompleteWithin';
+    const { time = 'editor' } = options;
+    const editorTime = report.updates.totalTime + report.measures.totalTime;
+    const actual = time === 'wall' ? report.duration : editorTime;
+    const pass = actual <= ms;
+    const what = time === 'wall' ? 'action' : 'editor work';
+    const received =
+      `${actual.toFixed(1)}ms (updates: ${report.updates.totalTime.toFixed(1)}ms, ` +
+      `measures: ${report.measures.totalTime.toFixed(1)}ms, ` +
+      `wall clock: ${report.duration.toFixed(1)}ms, long tasks: ${report.longTasks.count})`;
+    const message = pass
+      ? `Expected ${what} NOT to complete within ${ms}ms\nReceived: ${received}`
+      : `Expected ${what} to complete within ${ms}ms\nReceived: ${received}`;
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual,
+      expected: ms,
+    };
+  },
+
+  /**
+   * Assert that an action measured with `measure()` never had more than `expected`
+   * `.cm-line` elements in the DOM - a virtualization budget.
+   *
+   * @param report - Report returned by `editor.measure()`
+   * @param expected - Maximum number of rendered lines
+   *
+   * @example
+   * ```typescript
+   * const report = await editor.measure(() => editor.scrollToLine(90000));
+   * expect(report).toRenderAtMostLines(200);
+   * ```
+   */
+  toRenderAtMostLines(report: PerformanceReport, expected: number) {
+    const assertionName = 'toRenderAtMostLines';
+    const pass = report.maxLines <= expected;
+    const message = pass
+      ? `Expected more than ${expected} lines in the DOM\nReceived: ${report.maxLines}`
+      : `Expected at most ${expected} lines in the DOM\n` +
+        `Received: ${report.maxLines} ` +
+        `(before: ${report.linesBefore}, after: ${report.linesAfter})`;
+
+    return {
+      name: assertionName,
+      pass,
+      message: () => message,
+      actual: report.maxLines,
+      expected,
+    };
+  },
+
   /**
    * Assert that the editor is scrollable horizontally.
    * Uses retry polling to handle layout timing.
@@ -0,0 +1,130 @@
+import type { Locator } from '@playwright/test';
+import type { LineRange, LineScanOptions } from './types.js';
+import { toLineRanges } from './viewport.js';
+
+/**
+ * Find every document line carrying an element that matches a selector.
+ *
+ * Decorations are usually only built for the viewport, so the document is scanned chunk
+ * by chunk: the scroller is moved to the end of the rendered viewport until the end of
+ * the document has been rendered, and matches in each chunk are mapped to lines. Content
+ * elements are mapped with `posAtDOM`, gutter elements by their vertical position. The
+ * scroll position is restored afterwards.
+ *
+ * Throws instead of returning partial results when the scroller can't reach the rest of
+ * the document (an auto-height editor, whose viewport follows the page scroll) or the
+ * scan takes longer than `timeout`.
+ */
+export async function getLinesWithSelector(
+  view: Locator,
+  selector: string,
+  options: LineScanOptions = {}
+): Promise<LineRange[]> {
+  const [ranges] = await getLinesWithSelectors(view, [selector], options);
+  return ranges;
+}
+
+/**
+ * Like `getLinesWithSelector`, for several selectors in a single scan of the document.
+ * Returns the line ranges of each selector, in the order of `selectors`.
+ */
+export async function getLinesWithSelectors(
+  view: Locator,
+  selectors: string[],
+  options: LineScanOptions = {}
+): Promise<LineRange[][]> {
+  if (selectors.length === 0) return [];
+  const { timeout = 30000 } = options;
+
+  const result = await view.evaluate(
+    async (el, { selectors, timeout }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      const scroller = el.querySelector('.cm-scroller') as HTMLElement | null;
+      if (!cmView?.state?.doc || !scroller) {
+        return { error: 'CodeMirror view not found on .cm-editor element (cmView is not set)' };
+      }
+
+      const doc = cmView.state.doc;
+      const found = selectors.map(() => new Set<number>());
+      const collect = () => {
+        selectors.forEach((selector, i) => {
+          for (const element of Array.from(el.querySelectorAll(selector))) {
+            if (cmView.contentDOM.contains(element)) {
+              found[i].add(doc.lineAt(cmView.posAtDOM(element, 0)).number);
+            } else if (element.closest('.cm-gutters')) {
+              const rect = element.getBoundingClientRect();
+              // Skip placeholder elements (they have height 0 or are positioned off-screen)
+              if (rect.height === 0 || rect.top < -1000) continue;
+              const block = cmView.lineBlockAtHeight(
+                (rect.top + rect.bottom) / 2 - cmView.documentTop
+              );
+              found[i].add(doc.lineAt(block.from).number);
+            }
+          }
+        });
+      };
+      // CodeMirror measures and redraws on the frame after a scroll event
+      const nextRender = () =>
+        new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+
+      for (const selector of selectors) {
+        try {
+          el.querySelector(selector);
+        } catch {
+          return { error: `Invalid selector "${selector}"` };
+        }
+      }
+      const label = selectors.length === 1 ? `"${selectors[0]}"` : `${selectors.length} selectors`;
+
+      const deadline = Date.now() + timeout;
+      const savedTop = scroller.scrollTop;
+      scroller.scrollTop = 0;
+      await nextRender();
+      collect();
+
+      let error: string | null = null;
+      while (cmView.viewport.to < doc.length) {
+        const scanned = `scanned up to line ${doc.lineAt(cmView.viewport.to).number} of ${doc.lines}`;
+        if (Date.now() > deadline) {
+          error = `Scan for ${label} timed out after ${timeout}ms (${scanned})`;
+          break;
+        }
+        const block = cmView.lineBlockAt(cmView.viewport.to);
+        const offset = cmView.documentTop + block.top - scroller.getBoundingClientRect().top;
+        const before = scroller.scrollTop;
+        scroller.scrollTop += offset >= 1 ? offset : scroller.clientHeight;
+        if (scroller.scrollTop === before) {
+          error =
+            `Cannot scan for ${label}: the scroller can't reach the rest of the document ` +
+            `(${scanned}; is the editor auto-height?)`;
+          break;
+        }
+        await nextRender();
+        collect();
+      }
+
+      scroller.scrollTop = savedTop;
+      await nextRender();
+
+      if (error !== null) return { error };
+      return { lines: found.map((lines) => Array.from(lines).sort((a, b) => a - b)) };
+    },
+    { selectors, timeout }
+  );
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.lines.map((lines) => toLineRanges(lines));
+}
+
+/**
+ * Format line ranges for matcher messages (`5-7, 10, 12-14`).
+ */
+export function formatLineRanges(ranges: LineRange[]): string {
+  if (ranges.length === 0) return 'none';
+  return ranges
+    .map(({ first, last }) => (first === last ? `${first}` : `${first}-${last}`))
+    .join(', ');
+}
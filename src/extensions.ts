@@ -1,4 +1,102 @@
-import type { ExtensionDefinition, ExtensionRegistry } from './types.js';
+import type {
+  ExtensionDefinition,
+  ExtensionElementSpec,
+  ExtensionEntry,
+  ExtensionKey,
+  ExtensionName,
+  ExtensionRegistry,
+} from './types.js';
+
+const CLASS_NAME = /^-?[_a-zA-Z][\w-]*$/;
+// A string entry made of these characters only is a class name, anything else a selector
+const CLASS_ENTRY = /^[\w-]+$/;
+const ATTRIBUTE_NAME = /^[^\s"'>/=\[\]]+$/;
+const SCOPES = ['line', 'gutter', 'widget', 'mark'];
+
+/**
+ * Check an extension entry, returning a description of the problem or null if it is valid.
+ */
+function validateEntry(entry: ExtensionEntry): string | null {
+  if (typeof entry === 'string') {
+    return entry.trim() === '' ? 'class name or selector must not be empty' : null;
+  }
+  if (typeof entry !== 'object' || entry === null) {
+    return 'expected a class name, a selector or an object';
+  }
+  if ('selector' in entry) {
+    if (Object.keys(entry).length > 1) {
+      return '"selector" cannot be combined with other fields';
+    }
+    return typeof entry.selector !== 'string' || entry.selector.trim() === ''
+      ? 'selector must be a non-empty string'
+      : null;
+  }
+
+  const allowed = ['class', 'attrs', 'scope', 'gutter'];
+  const unknown = Object.keys(entry).filter((field) => !allowed.includes(field));
+  if (unknown.length > 0) {
+    return `unknown field(s) ${unknown.join(', ')} (allowed: ${allowed.join(', ')})`;
+  }
+
+  const classes = entry.class === undefined ? [] : [entry.class].flat();
+  const attrs = Object.entries(entry.attrs ?? {});
+  if (classes.length === 0 && attrs.length === 0) {
+    return 'an object entry needs "class" or "attrs"';
+  }
+  for (const className of classes) {
+    if (typeof className !== 'string' || !CLASS_NAME.test(className)) {
+      return `"${className}" is not a valid class name (use a selector string instead)`;
+    }
+  }
+  for (const [attr, value] of attrs) {
+    if (!ATTRIBUTE_NAME.test(attr)) {
+      return `"${attr}" is not a valid attribute name`;
+    }
+    if (typeof value !== 'string' && value !== true) {
+      return `attribute "${attr}" must be a string or true`;
+    }
+  }
+  if (entry.scope !== undefined && !SCOPES.includes(entry.scope)) {
+    return `scope must be one of ${SCOPES.join(', ')}, got "${entry.scope}"`;
+  }
+  if (entry.gutter !== undefined) {
+    if (entry.scope !== 'gutter') {
+      return '"gutter" is only allowed with scope: \'gutter\'';
+    }
+    if (!CLASS_NAME.test(entry.gutter)) {
+      return `"${entry.gutter}" is not a valid gutter class name`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the selector for an element description, relative to `.cm-editor`.
+ */
+function specToSelector(spec: ExtensionElementSpec): string {
+  const classes = spec.class === undefined ? [] : [spec.class].flat();
+  const attrs = Object.entries(spec.attrs ?? {}).map(([attr, value]) =>
+    value === true ? `[${attr}]` : `[${attr}="${value.replace(/["\\]/g, '\\$&')}"]`
+  );
+  const element = classes.map((className) => `.${className}`).join('') + attrs.join('');
+
+  switch (spec.scope) {
+    case 'line':
+      return `.cm-content > .cm-line${element}`;
+    case 'mark':
+      return `.cm-line ${element}`;
+    case 'widget':
+      // CodeMirror renders widgets with contenteditable="false"
+      return (
+        `.cm-content [contenteditable="false"]${element}, ` +
+        `.cm-content [contenteditable="false"] ${element}`
+      );
+    case 'gutter':
+      return spec.gutter ? `.cm-gutters .${spec.gutter} ${element}` : `.cm-gutters ${element}`;
+    default:
+      return element;
+  }
+}
 
 /**
  * Registry for CodeMirror extension class mappings.
@@ -14,9 +112,14 @@ import type { ExtensionDefinition, ExtensionRegistry } from './types.js';
  * registry.register('diff', { lineAddition: 'cm-diff-line-addition' });
  * const editor = CMEditor.from(page, { registry });
  * ```
+ *
+ * The type parameter `R` describes the registered extensions so that `getClass()` (and
+ * `CMEditor.ext()`) only accept known names and keys. Use `defineExtensions()` to create
+ * a typed registry; the default `ExtensionRegistry` accepts any string.
  */
-export class ExtensionRegistryManager {
+export class ExtensionRegistryManager<R extends ExtensionRegistry = ExtensionRegistry> {
   private registry: ExtensionRegistry = {};
+  private warnedSelectorClasses = new Set<string>();
 
   /**
    * Register an extension with its class name mappings.
@@ -32,17 +135,19 @@ export class ExtensionRegistryManager {
    * ```
    */
   register(name: string, definition: ExtensionDefinition): void {
+    for (const [key, entry] of Object.entries(definition)) {
+      const problem = validateEntry(entry);
+      if (problem) {
+        throw new Error(`Invalid entry "${key}" in extension "${name}": ${problem}`);
+      }
+    }
     this.registry[name] = definition;
   }
 
   /**
-   * Get the CSS class name for an extension key.
-   *
-   * @param name - Extension name (e.g., 'diff')
-   * @param key - Key within the extension (e.g., 'lineAddition')
-   * @returns The CSS class name, or throws if not found
+   * Get the registered entry for an extension key.
    */
-  getClass(name: string, key: string): string {
+  private getEntry(name: string, key: string): ExtensionEntry {
     const extension = this.registry[name];
     if (!extension) {
       throw new Error(
@@ -51,8 +156,8 @@ export class ExtensionRegistryManager {
       );
     }
 
-    const className = extension[key];
-    if (!className) {
+    const entry = extension[key];
+    if (!entry) {
       const availableKeys = Object.keys(extension).join(', ');
       throw new Error(
         `Key "${key}" not found in extension "${name}". ` +
@@ -60,7 +165,60 @@ export class ExtensionRegistryManager {
       );
     }
 
-    return className;
+    return entry;
+  }
+
+  /**
+   * Get the CSS class name for an extension key.
+   *
+   * Selector strings are still returned as they are, with a one-time deprecation warning:
+   * use `getSelector()` for them, as `getClass()` will throw for them in a future release.
+   *
+   * @param name - Extension name (e.g., 'diff')
+   * @param key - Key within the extension (e.g., 'lineAddition')
+   * @returns The CSS class name, or throws if not found or if the entry is an explicit
+   *   selector or an element description other than a single class
+   */
+  getClass<N extends ExtensionName<R>>(name: N, key: ExtensionKey<R, N>): string {
+    const entry = this.getEntry(name, key);
+    if (typeof entry === 'string') {
+      if (!CLASS_ENTRY.test(entry) && !this.warnedSelectorClasses.has(`${name}.${key}`)) {
+        this.warnedSelectorClasses.add(`${name}.${key}`);
+        console.warn(
+          `Deprecated: getClass('${name}', '${key}') returned the selector "${entry}". ` +
+            'Use getSelector() for selector entries.'
+        );
+      }
+      return entry;
+    }
+    if (
+      !('selector' in entry) &&
+      typeof entry.class === 'string' &&
+      entry.attrs === undefined &&
+      entry.scope === undefined
+    ) {
+      return entry.class;
+    }
+    throw new Error(
+      `Key "${key}" in extension "${name}" is not a single class name. Use getSelector() instead.`
+    );
+  }
+
+  /**
+   * Get the selector (relative to `.cm-editor`) for an extension key.
+   * Class names become `.class`, selector strings and explicit selectors are used as
+   * they are, and element descriptions are resolved with their scope.
+   *
+   * @param name - Extension name (e.g., 'diff')
+   * @param key - Key within the extension (e.g., 'lineAddition')
+   * @returns The selector, or throws if not found
+   */
+  getSelector<N extends ExtensionName<R>>(name: N, key: ExtensionKey<R, N>): string {
+    const entry = this.getEntry(name, key);
+    if (typeof entry === 'string') {
+      return CLASS_ENTRY.test(entry) ? `.${entry}` : entry;
+    }
+    return 'selector' in entry ? entry.selector : specToSelector(entry);
   }
 
   /**
@@ -83,6 +241,23 @@ export class ExtensionRegistryManager {
   getRegisteredNames(): string[] {
     return Object.keys(this.registry);
   }
+
+  /**
+   * Get the keys registered for an extension.
+   *
+   * @param name - Extension name (e.g., 'diff')
+   * @returns The keys, in registration order, or throws if the extension is not registered
+   */
+  getKeys(name: string): string[] {
+    const extension = this.registry[name];
+    if (!extension) {
+      throw new Error(
+        `Extension "${name}" not registered. ` +
+          `Use CMEditor.registerExtension('${name}', { ... }) first.`
+      );
+    }
+    return Object.keys(extension);
+  }
 }
 
 /**
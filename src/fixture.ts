@@ -0,0 +1,71 @@
+import { test as base } from '@playwright/test';
+import type { CMEditorFixtures, CMEditorTest, ExtensionRegistry } from './types.js';
+import { CMEditor } from './cm-editor.js';
+import { ExtensionRegistryManager } from './extensions.js';
+
+/**
+ * Playwright `test` with an `editor` fixture.
+ *
+ * The editor is configured with `test.use({ cmEditor: { selector, nth, extensions } })`.
+ * Each test gets a fresh `ExtensionRegistryManager` with the configured extensions, so
+ * tests are isolated without touching the global registry. The fixture is set up after
+ * `beforeEach` hooks (so they can navigate first) and waits for the editor to be ready.
+ *
+ * @example
+ * ```typescript
+ * import { test, expect } from 'playwright-codemirror';
+ *
+ * test.use({
+ *   cmEditor: {
+ *     nth: 1,
+ *     extensions: { diff: { lineAddition: 'cm-diff-line-addition' } },
+ *   },
+ * });
+ *
+ * test.beforeEach(async ({ page }) => {
+ *   await page.goto('/editor.html');
+ * });
+ *
+ * test('shows additions', async ({ editor }) => {
+ *   await expect(editor.ext('diff', 'lineAddition')).toHaveCount(3);
+ * });
+ * ```
+ */
+export const test: CMEditorTest = createEditorTest();
+
+/**
+ * Create a `test` whose `editor` fixture registers the given definitions, in addition
+ * to the `cmEditor` extensions, on a fresh registry typed with them.
+ * Used by `defineExtensions()`.
+ */
+export function createEditorTest<R extends ExtensionRegistry = ExtensionRegistry>(
+  definitions?: R
+): CMEditorTest<R> {
+  return base.extend<CMEditorFixtures<R>>({
+    cmEditor: [{}, { option: true }],
+
+    editor: async ({ page, cmEditor }, use) => {
+      const { selector, nth = 0, extensions = {}, timeout = 5000 } = cmEditor;
+
+      const registry = new ExtensionRegistryManager<R>();
+      for (const [name, definition] of Object.entries({ ...definitions, ...extensions })) {
+        registry.register(name, definition);
+      }
+
+      const source = selector ? page.locator(selector) : page;
+      const editor = CMEditor.from<R>(source, { nth, registry });
+
+      try {
+        await editor.view.waitFor({ state: 'visible', timeout });
+        await editor.content.waitFor({ state: 'attached', timeout });
+      } catch (error) {
+        const where = selector ? ` in "${selector}"` : '';
+        const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        const message = `Editor #${nth}${where} did not become ready within ${timeout}ms`;
+        throw new Error(`${message}: ${reason}`, { cause: error });
+      }
+
+      await use(editor);
+    },
+  });
+}
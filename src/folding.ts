@@ -0,0 +1,157 @@
+import type { Locator } from '@playwright/test';
+import type { FoldedRange } from './types.js';
+import { scrollToGutterElement } from './gutters.js';
+
+/**
+ * Read the folds through `foldedRanges(state)` from `@codemirror/language`, which the page
+ * exposes on the editor element as `cmFoldedRanges` (next to `cmView`). Resolves to `null`
+ * when the page does not expose it.
+ */
+export async function readFoldedRanges(view: Locator): Promise<FoldedRange[] | null> {
+  const ranges = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) return { error: 'view' };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const foldedRanges = (el as any).cmFoldedRanges;
+    if (typeof foldedRanges !== 'function') return { error: 'folds' };
+
+    const doc = cmView.state.doc;
+    const folds: { from: number; to: number; first: number; last: number }[] = [];
+    foldedRanges(cmView.state).between(0, doc.length, (from: number, to: number) => {
+      folds.push({ from, to, first: doc.lineAt(from).number, last: doc.lineAt(to).number });
+    });
+    return { folds };
+  });
+
+  if ('error' in ranges) {
+    if (ranges.error === 'folds') return null;
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+
+  return ranges.folds;
+}
+
+/**
+ * Get all folded ranges in the document, including folds outside the viewport.
+ *
+ * No widget is rendered to find them: they come from `foldedRanges(state)`, which the
+ * page must expose on the editor element (`view.dom.cmFoldedRanges = foldedRanges`).
+ */
+export async function getFoldedRanges(view: Locator): Promise<FoldedRange[]> {
+  const folds = await readFoldedRanges(view);
+  if (folds === null) {
+    throw new Error(
+      'foldedRanges not found on .cm-editor element ' +
+        '(set view.dom.cmFoldedRanges = foldedRanges from @codemirror/language)'
+    );
+  }
+  return folds;
+}
+
+/**
+ * Press a fold keybinding from `@codemirror/language`'s `foldKeymap`.
+ */
+async function pressFoldKey(view: Locator, command: 'foldCode' | 'unfoldAll'): Promise<void> {
+  const isMac = await view.evaluate(() => /Mac|iPhone|iPad/.test(navigator.platform));
+  const keys = {
+    foldCode: isMac ? 'Meta+Alt+BracketLeft' : 'Control+Shift+BracketLeft',
+    unfoldAll: 'Control+Alt+BracketRight',
+  };
+  await view.locator('.cm-content').press(keys[command]);
+}
+
+/**
+ * Fold the foldable range starting on `firstLine` and check that it ends on `lastLine`.
+ *
+ * The fold is made the way a user makes it: the cursor is put at the end of `firstLine`
+ * and `foldCode`'s key from `foldKeymap` is pressed, so the editor needs `foldKeymap`
+ * and the range comes from its fold services. The editor is focused, and the selection
+ * is restored afterwards, also when folding fails, unless its head lies inside the new
+ * fold (which would unfold it); then the cursor stays at the end of `firstLine`.
+ */
+export async function foldLines(
+  view: Locator,
+  firstLine: number,
+  lastLine: number
+): Promise<FoldedRange> {
+  if (firstLine < 1) {
+    throw new Error(`Line number must be >= 1, got ${firstLine}`);
+  }
+  if (lastLine <= firstLine) {
+    throw new Error(`Last line must be > first line, got ${firstLine}-${lastLine}`);
+  }
+
+  // foldCode folds the range computed by the fold services for the cursor's line
+  const saved = await view.evaluate((el, targetLine) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc || targetLine > cmView.state.doc.lines) return null;
+    const selection = cmView.state.selection.toJSON();
+    const line = cmView.state.doc.line(targetLine);
+    cmView.dispatch({ selection: { anchor: line.to } });
+    cmView.focus();
+    return selection;
+  }, firstLine);
+
+  if (!saved) {
+    throw new Error(`Line ${firstLine} is out of range or the CodeMirror view is not available`);
+  }
+
+  let fold: FoldedRange | undefined;
+  try {
+    await pressFoldKey(view, 'foldCode');
+    const folds = await getFoldedRanges(view);
+    fold = folds.find((range) => range.first === firstLine);
+  } finally {
+    // Put the user's selection back, unless moving the head into the fold would unfold it
+    await view.evaluate(
+      (el, { saved, fold }) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const cmView = (el as any).cmView;
+        const EditorSelection = cmView.state.selection.constructor;
+        const selection = EditorSelection.fromJSON(saved);
+        if (fold && selection.main.head > fold.from && selection.main.head < fold.to) return;
+        cmView.dispatch({ selection });
+      },
+      { saved, fold }
+    );
+  }
+
+  if (!fold) {
+    throw new Error(
+      `Line ${firstLine} could not be folded (no foldable range, or foldKeymap is not installed)`
+    );
+  }
+  if (fold.last !== lastLine) {
+    throw new Error(
+      `Line ${firstLine} folds to line ${fold.last}, not ${lastLine} ` +
+        `(the range comes from the editor's fold services)`
+    );
+  }
+  return fold;
+}
+
+/**
+ * Unfold every folded range in the document by pressing `unfoldAll`'s key from
+ * `foldKeymap` (Ctrl-Alt-]), so the editor needs `foldKeymap`. The editor is focused;
+ * the selection is left as it is.
+ */
+export async function unfoldAll(view: Locator): Promise<void> {
+  await pressFoldKey(view, 'unfoldAll');
+
+  const remaining = await getFoldedRanges(view);
+  if (remaining.length > 0) {
+    throw new Error(
+      `${remaining.length} folded range(s) remain after unfoldAll (is foldKeymap installed?)`
+    );
+  }
+}
+
+/**
+ * Scroll a line into view and click its marker in the fold gutter.
+ */
+export async function clickFoldGutter(view: Locator, lineNumber: number): Promise<void> {
+  const gutterElement = await scrollToGutterElement(view, '.cm-foldGutter', lineNumber);
+  await gutterElement.click();
+}
@@ -0,0 +1,45 @@
+import type { Locator } from '@playwright/test';
+import { scrollToLine } from './scroll.js';
+
+/**
+ * Scroll a line into view and return the locator of its element in a gutter.
+ * Gutter elements are matched to the line's block by vertical position.
+ */
+export async function scrollToGutterElement(
+  view: Locator,
+  gutterSelector: string,
+  lineNumber: number
+): Promise<Locator> {
+  await scrollToLine(view, lineNumber, { position: 'center' });
+
+  const elementSelector = `${gutterSelector} .cm-gutterElement`;
+  const index = await view.evaluate(
+    (el, { targetLine, elementSelector }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state?.doc || targetLine > cmView.state.doc.lines) return -1;
+
+      const line = cmView.state.doc.line(targetLine);
+      const coords = cmView.coordsAtPos(line.from);
+      if (!coords) return -1;
+
+      const gutterElements = el.querySelectorAll(elementSelector);
+      for (let i = 0; i < gutterElements.length; i++) {
+        const rect = gutterElements[i].getBoundingClientRect();
+        // Skip placeholder elements (they have height 0 or are positioned off-screen)
+        if (rect.height === 0 || rect.top < -1000) continue;
+        if (Math.abs(rect.top - coords.top) < 5) {
+          return i;
+        }
+      }
+      return -1;
+    },
+    { targetLine: lineNumber, elementSelector }
+  );
+
+  if (index === -1) {
+    throw new Error(`Gutter element "${gutterSelector}" for line ${lineNumber} not found`);
+  }
+
+  return view.locator(elementSelector).nth(index);
+}
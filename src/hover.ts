@@ -0,0 +1,64 @@
+import type { Locator } from '@playwright/test';
+import type { DocumentPosition, HoverOptions, TooltipInfo } from './types.js';
+import { scrollToCharacter } from './mouse.js';
+import { textMatches } from './document.js';
+
+/**
+ * Hover a document position with the mouse and wait for a `.cm-tooltip-hover`.
+ *
+ * The mouse is moved to the middle of the character at the position, taken from
+ * `coordsAtPos`, so the hover source receives that position.
+ */
+export async function hoverAt(
+  view: Locator,
+  position: DocumentPosition,
+  options: HoverOptions = {}
+): Promise<Locator> {
+  const { timeout = 5000 } = options;
+  const box = await scrollToCharacter(view, position);
+  await view.page().mouse.move((box.left + box.right) / 2, (box.top + box.bottom) / 2);
+
+  const tooltip = view.locator('.cm-tooltip-hover').first();
+  try {
+    await tooltip.waitFor({ state: 'visible', timeout });
+  } catch {
+    throw new Error(
+      `No hover tooltip appeared at ${position.line}:${position.col} within ${timeout}ms`
+    );
+  }
+  return tooltip;
+}
+
+/**
+ * Get the tooltips currently shown by the editor (hover, autocompletion, lint, ...).
+ * Tooltips that CodeMirror has moved out of sight are skipped.
+ */
+export async function getTooltips(view: Locator): Promise<TooltipInfo[]> {
+  return view.evaluate((el) => {
+    const tooltips = Array.from(el.querySelectorAll('.cm-tooltip')) as HTMLElement[];
+    return (
+      tooltips
+        // Only top-level tooltips; some tooltips nest other `.cm-tooltip` elements
+        .filter((tooltip) => !tooltip.parentElement?.closest('.cm-tooltip'))
+        .filter((tooltip) => {
+          const rect = tooltip.getBoundingClientRect();
+          // Tooltips whose anchor is out of view are parked far off-screen
+          return rect.height > 0 && rect.top > -1000;
+        })
+        .map((tooltip) => ({
+          text: tooltip.textContent ?? '',
+          classes: Array.from(tooltip.classList),
+          hover: tooltip.classList.contains('cm-tooltip-hover'),
+        }))
+    );
+  });
+}
+
+/**
+ * Check whether a tooltip's text contains a string or matches a pattern.
+ */
+export function tooltipContains(tooltip: TooltipInfo, containing: string | RegExp): boolean {
+  return typeof containing === 'string'
+    ? tooltip.text.includes(containing)
+    : textMatches(tooltip.text, containing);
+}
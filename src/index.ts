@@ -26,24 +26,103 @@
 
 // Main exports
 export { CMEditor } from './cm-editor.js';
+export { CMMergeView } from './cm-merge-view.js';
 export { expect } from './expect.js';
 export { ExtensionRegistryManager } from './extensions.js';
+export { defineExtensions } from './typed-extensions.js';
+export { test } from './fixture.js';
 
 // Types
 export type {
+  ClickAtOptions,
+  ClickLineNumberOptions,
+  CMEditorFixtureOptions,
+  CMEditorFixtures,
   CMEditorOptions,
   CMEditorSource,
+  CMEditorTest,
+  CMMergeViewOptions,
+  CollapsedRegion,
+  CompletionAssertionOptions,
+  CompletionOption,
+  DocumentPosition,
+  DocumentRange,
+  DragSelectOptions,
+  EditOptions,
+  EditorCountAssertionOptions,
+  EditorQuery,
+  EditorSelectionInfo,
+  EditorSnapshotAssertionOptions,
+  EditorSnapshotOptions,
+  ExtensionAssertionOptions,
   ExtensionDefinition,
+  ExtensionElementSpec,
+  ExtensionEntry,
+  ExtensionKey,
+  ExtensionName,
   ExtensionRegistry,
+  ExtensionScope,
+  ExtensionSelector,
+  FindEditorOptions,
+  FirstVisibleLineAssertionOptions,
+  FoldAssertionOptions,
+  FoldedRange,
+  HoverOptions,
+  KeyboardModifier,
   LineCountAssertionOptions,
+  LineMatch,
+  LintAssertionOptions,
+  LintDiagnostic,
+  LintDiagnosticMatcher,
+  LintSeverity,
   LineRange,
+  LineScanOptions,
+  MergeAssertionOptions,
+  MergeChunk,
+  MergeSide,
   PartialScrollPosition,
+  PerformanceBudgetOptions,
+  PerformanceReport,
+  RecordScrollOptions,
   ScrollabilityAssertionOptions,
   ScrollAssertionOptions,
+  ScrollColumnPosition,
   ScrollDimensions,
+  ScrollFrame,
   ScrollLinePosition,
   ScrollPosition,
+  ScrollSample,
+  ScrollToColumnOptions,
   ScrollToLineOptions,
   ScrollToOptions,
+  ScrollToPositionOptions,
+  ScrollToTextOptions,
+  ScrollTrace,
+  SearchAssertionOptions,
+  SearchMatch,
+  SearchOptions,
+  SelectionAssertionOptions,
+  SelectionPoint,
+  SelectionRangeInfo,
+  SelectionRangeSpec,
+  SetSelectionOptions,
+  SetStateOptions,
+  StateAssertionOptions,
+  StateMarkers,
+  StateNotationOptions,
+  SyntaxAssertionOptions,
+  SyntaxNodeInfo,
+  SyntaxNodeOptions,
+  TextAssertionOptions,
+  TimingSummary,
+  TokenSpan,
+  TooltipAssertionOptions,
+  TooltipInfo,
+  TypedExtensions,
+  ViewportAnchor,
+  ViewportAssertionOptions,
   ViewportLineInfo,
+  ViewportStabilityAssertionOptions,
+  WaitForCompletionOptions,
+  WaitForLintIdleOptions,
 } from './types.js';
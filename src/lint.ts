@@ -0,0 +1,232 @@
+import type { Locator } from '@playwright/test';
+import type { LintDiagnostic, LintDiagnosticMatcher, WaitForLintIdleOptions } from './types.js';
+import { scrollToGutterElement } from './gutters.js';
+import { textMatches } from './document.js';
+
+/**
+ * Get all lint diagnostics in the document, including those outside the viewport.
+ *
+ * Diagnostics are read from `@codemirror/lint`'s state field through the decorations
+ * it provides (each decoration carries its diagnostics in its spec). Positions come from
+ * the decorations, so they stay correct after edits that happened since the last lint run.
+ */
+export async function getLintDiagnostics(view: Locator): Promise<LintDiagnostic[]> {
+  const diagnostics = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) return null;
+
+    const doc = cmView.state.doc;
+    const sources = cmView.state.facet(cmView.constructor.decorations);
+    // A diagnostic can be split over several decorations - merge them by identity
+    const found = new Map<unknown, { from: number; to: number }>();
+
+    for (const source of sources) {
+      // Function sources are computed from the view (plugins); lint state is a static set
+      if (typeof source === 'function') continue;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      source.between(0, doc.length, (from: number, to: number, deco: any) => {
+        const spec = deco.spec ?? {};
+        // @codemirror/lint >= 6.5 uses `diagnostics`, older versions `diagnostic`
+        const list = spec.diagnostics ?? (spec.diagnostic ? [spec.diagnostic] : null);
+        if (!Array.isArray(list)) return;
+
+        for (const diagnostic of list) {
+          const range = found.get(diagnostic);
+          if (range) {
+            range.from = Math.min(range.from, from);
+            range.to = Math.max(range.to, to);
+          } else {
+            found.set(diagnostic, { from, to });
+          }
+        }
+      });
+    }
+
+    const toPosition = (pos: number) => {
+      const line = doc.lineAt(pos);
+      return { line: line.number as number, col: pos - line.from };
+    };
+
+    return [...found.entries()].map(([key, { from, to }]) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const diagnostic = key as any;
+      const start = toPosition(from);
+      const end = toPosition(to);
+      return {
+        from,
+        to,
+        line: start.line,
+        col: start.col,
+        endLine: end.line,
+        endCol: end.col,
+        severity: diagnostic.severity as LintDiagnostic['severity'],
+        message: String(diagnostic.message),
+        source: diagnostic.source as string | undefined,
+      };
+    });
+  });
+
+  if (diagnostics === null) {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+
+  return diagnostics.sort((a, b) => a.from - b.from || a.to - b.to);
+}
+
+/**
+ * Check whether a diagnostic matches every property given in `expected`.
+ */
+export function lintDiagnosticMatches(
+  diagnostic: LintDiagnostic,
+  expected: LintDiagnosticMatcher
+): boolean {
+  if (expected.line !== undefined && diagnostic.line !== expected.line) return false;
+  if (expected.col !== undefined && diagnostic.col !== expected.col) return false;
+  if (expected.severity !== undefined && diagnostic.severity !== expected.severity) return false;
+  if (expected.source !== undefined && diagnostic.source !== expected.source) return false;
+  if (expected.message !== undefined) {
+    if (typeof expected.message === 'string') {
+      if (!diagnostic.message.includes(expected.message)) return false;
+    } else if (!textMatches(diagnostic.message, expected.message)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Wait until the linter has no pending run, the last run's diagnostics have been
+ * applied and the editor state has stopped changing.
+ *
+ * The lint plugin marks itself as pending when the document changes and clears the
+ * flag when it starts linting; diagnostics then arrive through a transaction once every
+ * source has answered, which for an async source can be much later. Runs are counted
+ * when the flag is cleared, and a run counts as applied when the lint state changes
+ * without an edit. When no run is known yet (first call, nothing pending), one is started
+ * so its result can be observed. The pending flag and the lint state are internals of
+ * `@codemirror/lint`, so if they can't be recognized (no `linter()`, or a version that
+ * renamed them) this throws rather than report an idle linter it can't see.
+ */
+export async function waitForLintIdle(
+  view: Locator,
+  options: WaitForLintIdleOptions = {}
+): Promise<void> {
+  const { timeout = 5000, quietPeriod = 100, force = false } = options;
+
+  const result = await view.evaluate(
+    (el, { timeout, quietPeriod, force }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state) {
+        return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+      }
+
+      // The lint plugin instance keeps `set` (run pending), `lintTime` and `force()`
+      const findLintPlugin = () => {
+        for (const plugin of cmView.plugins ?? []) {
+          const value = plugin?.value;
+          if (
+            value &&
+            typeof value.lintTime === 'number' &&
+            typeof value.set === 'boolean' &&
+            typeof value.force === 'function'
+          ) {
+            return value;
+          }
+        }
+        return null;
+      };
+
+      // The lint state field value keeps `diagnostics`, `panel` and `selected`; every
+      // applied run replaces it
+      const findLintState = () =>
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (cmView.state.values as any[]).find(
+          (value) =>
+            value &&
+            typeof value.diagnostics?.between === 'function' &&
+            'panel' in value &&
+            'selected' in value
+        ) ?? null;
+
+      const lintPlugin = findLintPlugin();
+      if (!lintPlugin || !findLintState()) {
+        return (
+          'Lint plugin not found: the editor has no linter(), or this @codemirror/lint ' +
+          'version keeps its pending state differently'
+        );
+      }
+
+      // Count started runs by watching the plugin clear `set`; kept across calls
+      let tracker = lintPlugin.__lintIdleTracker;
+      if (!tracker) {
+        tracker = { started: 0, applied: 0, lintState: findLintState(), doc: cmView.state.doc };
+        let pending = lintPlugin.set;
+        Object.defineProperty(lintPlugin, 'set', {
+          configurable: true,
+          get: () => pending,
+          set: (next: boolean) => {
+            if (pending && !next) tracker.started++;
+            pending = next;
+          },
+        });
+        lintPlugin.__lintIdleTracker = tracker;
+        // A run may be in flight already; start one whose result we can observe
+        if (!pending) {
+          lintPlugin.set = true;
+          lintPlugin.force();
+        }
+      }
+      if (force) lintPlugin.force();
+
+      return new Promise<string | null>((resolve) => {
+        const deadline = Date.now() + timeout;
+        let lastState = cmView.state;
+        let stableSince = Date.now();
+
+        const check = () => {
+          const lintState = findLintState();
+          if (lintState !== tracker.lintState) {
+            // Mapping through an edit also replaces it, but then a new run is pending
+            if (cmView.state.doc === tracker.doc) tracker.applied = tracker.started;
+            tracker.lintState = lintState;
+          }
+          tracker.doc = cmView.state.doc;
+
+          const pending = lintPlugin.set || tracker.applied < tracker.started;
+          // Any transaction (edit or new diagnostics) produces a new state
+          if (cmView.state !== lastState || pending) {
+            lastState = cmView.state;
+            stableSince = Date.now();
+          }
+          if (!pending && Date.now() - stableSince >= quietPeriod) {
+            return resolve(null);
+          }
+          if (Date.now() > deadline) {
+            return resolve(
+              `Linter did not become idle within ${timeout}ms` +
+                (lintPlugin.set ? '' : ' (a lint run has not delivered its diagnostics)')
+            );
+          }
+          setTimeout(check, 20);
+        };
+        check();
+      });
+    },
+    { timeout, quietPeriod, force }
+  );
+
+  if (result !== null) {
+    throw new Error(result);
+  }
+}
+
+/**
+ * Scroll a line into view and return the locator of its lint gutter marker.
+ */
+export async function getLintGutterMarker(view: Locator, lineNumber: number): Promise<Locator> {
+  const gutterElement = await scrollToGutterElement(view, '.cm-gutter-lint', lineNumber);
+  return gutterElement.locator('.cm-lint-marker');
+}
@@ -1,7 +1,8 @@
 import type { Locator } from '@playwright/test';
-import type { ScrollToLineOptions } from './types.js';
+import type { ScrollToLineOptions, ScrollToTextOptions } from './types.js';
 import { scrollToLine } from './scroll.js';
-import { getLinesInViewport } from './viewport.js';
+import { getLinesInViewport, getRenderedLines } from './viewport.js';
+import { findLines } from './document.js';
 
 /**
  * Scroll a line into view and return its locator.
@@ -19,53 +20,20 @@ export async function scrollToLineAndLocate(
   const timeout = options.timeout ?? 5000;
   await scrollToLine(view, lineNumber, options);
 
-  // Find the line by its gutter number (works with virtual rendering)
-  // The gutter element with the line number is at the same vertical position as the line
-  const gutterLocator = view.locator(
-    `.cm-lineNumbers .cm-gutterElement:text-is("${lineNumber}")`
-  );
-
-  // Wait for the gutter element to be visible
-  await gutterLocator.waitFor({ state: 'visible', timeout });
-
-  // Find the line by matching gutter element position to line position
-  // The gutter elements and lines are visually aligned, so we find the
-  // gutter element with the target line number and get the line at the same position
-  const lineIndex = await view.evaluate(
-    (el, targetLineNum) => {
-      // Find the gutter element with the target line number
-      const gutterElements = el.querySelectorAll(
-        '.cm-lineNumbers .cm-gutterElement'
-      );
-      let targetGutterEl: Element | null = null;
-
-      for (const gutterEl of gutterElements) {
-        if (gutterEl.textContent === String(targetLineNum)) {
-          targetGutterEl = gutterEl;
-          break;
-        }
-      }
-
-      if (!targetGutterEl) return -1;
-
-      // Get the top position of the gutter element
-      const gutterRect = targetGutterEl.getBoundingClientRect();
-      const gutterTop = gutterRect.top;
-
-      // Find the line at the same vertical position
-      const lines = el.querySelectorAll('.cm-line');
-      for (let i = 0; i < lines.length; i++) {
-        const lineRect = lines[i].getBoundingClientRect();
-        // Check if the line's top is within a small tolerance of the gutter's top
-        if (Math.abs(lineRect.top - gutterTop) < 5) {
-          return i;
-        }
-      }
-
-      return -1;
-    },
-    lineNumber
-  );
+  // Virtual rendering means line N isn't at DOM index N-1, so resolve the rendered
+  // lines to document lines; the new lines may take a frame or two to be drawn
+  const deadline = Date.now() + timeout;
+  let lineIndex = -1;
+  for (;;) {
+    const rendered = await getRenderedLines(view);
+    const line = rendered.lines.find((candidate) => candidate.line === lineNumber);
+    if (line) {
+      lineIndex = line.index;
+      break;
+    }
+    if (Date.now() > deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
 
   if (lineIndex === -1) {
     throw new Error(`Line ${lineNumber} not found after scrolling`);
@@ -76,6 +44,35 @@ export async function scrollToLineAndLocate(
   return locator;
 }
 
+/**
+ * Find the line containing a text in the whole document, scroll it into view and
+ * return its locator. `nth` counts matching lines, so a line with several matches
+ * counts once.
+ */
+export async function scrollToTextAndLocate(
+  view: Locator,
+  linesInDOM: Locator,
+  query: string | RegExp,
+  options: ScrollToTextOptions = {}
+): Promise<Locator> {
+  const { nth = 0, ...scrollOptions } = options;
+  const matches = await findLines(view, query);
+  const label = typeof query === 'string' ? `"${query}"` : String(query);
+
+  if (matches.length === 0) {
+    throw new Error(`Text ${label} not found in the document`);
+  }
+  const lines = Array.from(new Set(matches.map((match) => match.line)));
+  if (nth < 0 || nth >= lines.length) {
+    throw new Error(
+      `Match #${nth} of ${label} is out of range ` +
+        `(${lines.length} matching lines, nth is 0-based)`
+    );
+  }
+
+  return scrollToLineAndLocate(view, linesInDOM, lines[nth], scrollOptions);
+}
+
 /**
  * Get the first line currently visible in the viewport.
  */
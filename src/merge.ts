@@ -0,0 +1,275 @@
+import type { Locator } from '@playwright/test';
+import type { CollapsedRegion, LineRange, MergeChunk, MergeSide } from './types.js';
+
+const VIEWS_NOT_FOUND =
+  'CodeMirror views not found on the merge view editors (cmView is not set on .cm-merge-a/b)';
+
+/**
+ * Get the changed chunks of a `@codemirror/merge` view, with line ranges on both sides.
+ *
+ * The chunks are read from the chunk state field of the `a` editor, found among the
+ * state's field values as an array of objects with `fromA`/`toA`/`fromB`/`toB` offsets.
+ */
+export async function getMergeChunks(root: Locator): Promise<MergeChunk[]> {
+  const result = await root.evaluate((el, notFound) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const a = (el.querySelector('.cm-merge-a') as any)?.cmView;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const b = (el.querySelector('.cm-merge-b') as any)?.cmView;
+    if (!a?.state?.doc || !b?.state?.doc) {
+      return { error: notFound };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const isChunk = (value: any) =>
+      value &&
+      typeof value === 'object' &&
+      typeof value.fromA === 'number' &&
+      typeof value.toA === 'number' &&
+      typeof value.fromB === 'number' &&
+      typeof value.toB === 'number' &&
+      Array.isArray(value.changes);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const candidates = (a.state.values ?? []).filter((value: any) => {
+      return Array.isArray(value) && value.every(isChunk);
+    });
+    // Other fields may hold empty arrays; an empty chunk list looks the same
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const chunks: any[] | undefined =
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      candidates.find((value: any[]) => value.length > 0) ?? candidates[0];
+    if (!chunks) {
+      return { error: 'Merge chunks not found (is this a @codemirror/merge MergeView?)' };
+    }
+
+    // `to` is one past the last changed line, and may be past the document end
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const lines = (doc: any, from: number, to: number) => {
+      if (from === to) return null;
+      const last = Math.max(from, Math.min(doc.length, to - 1));
+      return { first: doc.lineAt(from).number as number, last: doc.lineAt(last).number as number };
+    };
+
+    return {
+      chunks: chunks.map((chunk) => ({
+        a: lines(a.state.doc, chunk.fromA, chunk.toA),
+        b: lines(b.state.doc, chunk.fromB, chunk.toB),
+        fromA: chunk.fromA as number,
+        toA: chunk.toA as number,
+        fromB: chunk.fromB as number,
+        toB: chunk.toB as number,
+      })),
+    };
+  }, VIEWS_NOT_FOUND);
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.chunks;
+}
+
+/**
+ * Get a chunk by index, with a helpful error when it doesn't exist.
+ */
+async function getMergeChunk(root: Locator, index: number): Promise<MergeChunk> {
+  const chunks = await getMergeChunks(root);
+  if (index < 0 || index >= chunks.length) {
+    throw new Error(`Chunk ${index} is out of range (merge view has ${chunks.length} chunks)`);
+  }
+  return chunks[index];
+}
+
+/**
+ * Move the cursor of one side to the next (or previous) chunk and scroll it into view,
+ * like the `goToNextChunk`/`goToPreviousChunk` commands. Wraps around at the ends.
+ *
+ * @returns Index of the chunk the cursor moved to
+ */
+export async function goToChunk(
+  root: Locator,
+  side: MergeSide,
+  direction: 1 | -1
+): Promise<number> {
+  const chunks = await getMergeChunks(root);
+  if (chunks.length === 0) {
+    throw new Error('Merge view has no chunks');
+  }
+
+  const result = await root.evaluate(
+    (el, { side, direction, chunks, notFound }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const view = (el.querySelector(`.cm-merge-${side}`) as any)?.cmView;
+      if (!view?.state) return { error: notFound };
+
+      const range = (chunk: (typeof chunks)[number]) =>
+        side === 'b' ? [chunk.fromB, chunk.toB] : [chunk.fromA, chunk.toA];
+
+      // Same search as @codemirror/merge's moveByChunk
+      const head: number = view.state.selection.main.head;
+      let pos = 0;
+      for (let i = chunks.length - 1; i >= 0; i--) {
+        const [from, to] = range(chunks[i]);
+        if (to < head) {
+          pos = i + 1;
+          break;
+        }
+        if (from <= head) {
+          pos = i + (direction < 0 ? 0 : 1);
+          break;
+        }
+      }
+      const index = (pos + (direction < 0 ? chunks.length - 1 : 0)) % chunks.length;
+      const [from, to] = range(chunks[index]);
+
+      view.dispatch({
+        selection: { anchor: from },
+        userEvent: 'select.byChunk',
+        effects: view.constructor.scrollIntoView(
+          view.state.selection.constructor.range(Math.min(to, view.state.doc.length), from)
+        ),
+      });
+      view.focus();
+      return { index };
+    },
+    { side, direction, chunks, notFound: VIEWS_NOT_FOUND }
+  );
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.index;
+}
+
+/**
+ * Copy one side's version of a chunk over the other side's, like the merge view's
+ * revert controls. Copying `b` into `a` accepts the change; copying `a` into `b`
+ * rejects it.
+ */
+export async function copyChunk(root: Locator, index: number, from: MergeSide): Promise<void> {
+  const chunk = await getMergeChunk(root, index);
+
+  const result = await root.evaluate(
+    (el, { chunk, from, notFound }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const a = (el.querySelector('.cm-merge-a') as any)?.cmView;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const b = (el.querySelector('.cm-merge-b') as any)?.cmView;
+      if (!a?.state || !b?.state) return { error: notFound };
+
+      const [source, dest, srcFrom, srcTo, destFrom, destTo] =
+        from === 'b'
+          ? [b, a, chunk.fromB, chunk.toB, chunk.fromA, chunk.toA]
+          : [a, b, chunk.fromA, chunk.toA, chunk.fromB, chunk.toB];
+
+      // Same edit as MergeView's revert controls
+      let insert: string = source.state.sliceDoc(srcFrom, Math.max(srcFrom, srcTo - 1));
+      if (srcFrom !== srcTo && destTo <= dest.state.doc.length) {
+        insert += source.state.lineBreak;
+      }
+      dest.dispatch({
+        changes: { from: destFrom, to: Math.min(dest.state.doc.length, destTo), insert },
+        userEvent: 'revert',
+      });
+      return { ok: true };
+    },
+    { chunk, from, notFound: VIEWS_NOT_FOUND }
+  );
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+}
+
+/**
+ * Scroll a chunk into view (on both sides) and return the locator of its revert control.
+ * The merge view only renders revert controls for chunks in the viewport.
+ */
+export async function scrollToRevertControl(root: Locator, index: number): Promise<Locator> {
+  const chunk = await getMergeChunk(root, index);
+
+  await root.evaluate(
+    (el, { fromA, notFound }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const a = (el.querySelector('.cm-merge-a') as any)?.cmView;
+      if (!a?.state) throw new Error(notFound);
+      // Scrolls every scrollable ancestor, including the merge view container
+      a.dispatch({ effects: a.constructor.scrollIntoView(fromA, { y: 'center' }) });
+    },
+    { fromA: chunk.fromA, notFound: VIEWS_NOT_FOUND }
+  );
+
+  const control = root.locator(`.cm-merge-revert [data-chunk="${index}"]`);
+  try {
+    await control.waitFor({ state: 'visible', timeout: 5000 });
+  } catch {
+    throw new Error(`No revert control for chunk ${index} (are revertControls enabled?)`);
+  }
+  return control;
+}
+
+/**
+ * Get the regions collapsed by `collapseUnchanged`, including regions outside the
+ * viewport. Regions are found by walking the line blocks of each editor and picking
+ * replaced blocks whose widget has the `collapsed-unchanged-code` type.
+ */
+export async function getCollapsedRegions(root: Locator): Promise<CollapsedRegion[]> {
+  const result = await root.evaluate((el, notFound) => {
+    const regions: { side: 'a' | 'b'; lines: LineRange }[] = [];
+    for (const side of ['a', 'b'] as const) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const view = (el.querySelector(`.cm-merge-${side}`) as any)?.cmView;
+      if (!view?.state?.doc) return { error: notFound };
+
+      const doc = view.state.doc;
+      let block = view.lineBlockAt(0);
+      for (;;) {
+        if (block.widget?.type === 'collapsed-unchanged-code') {
+          regions.push({
+            side,
+            lines: { first: doc.lineAt(block.from).number, last: doc.lineAt(block.to).number },
+          });
+        }
+        if (block.to >= doc.length) break;
+        block = view.lineBlockAt(block.to + 1);
+      }
+    }
+    return { regions };
+  }, VIEWS_NOT_FOUND);
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.regions;
+}
+
+/**
+ * Expand a collapsed region by clicking its "N unchanged lines" widget, scrolling it into
+ * view first. The merge view expands the matching region on the other side too.
+ */
+export async function expandCollapsedRegion(
+  root: Locator,
+  region: CollapsedRegion
+): Promise<void> {
+  const editor = root.locator(`.cm-merge-${region.side}`);
+
+  const index = await editor.evaluate(async (el, { first }) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const view = (el as any).cmView;
+    if (!view?.state?.doc) return -1;
+
+    const from = view.state.doc.line(first).from;
+    view.dispatch({ effects: view.constructor.scrollIntoView(from, { y: 'center' }) });
+    // Scrolling and redrawing happen in CodeMirror's next measure cycle
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    const widgets = Array.from(el.querySelectorAll('.cm-collapsedLines'));
+    return widgets.findIndex((widget) => view.posAtDOM(widget) === from);
+  }, region.lines);
+
+  if (index === -1) {
+    throw new Error(
+      `Collapsed region at lines ${region.lines.first}-${region.lines.last} ` +
+        `(side ${region.side}) is not rendered`
+    );
+  }
+  await editor.locator('.cm-collapsedLines').nth(index).click();
+}
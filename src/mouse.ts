@@ -0,0 +1,216 @@
+import type { Locator, Page } from '@playwright/test';
+import type {
+  ClickAtOptions,
+  ClickLineNumberOptions,
+  DocumentPosition,
+  DragSelectOptions,
+  KeyboardModifier,
+} from './types.js';
+import { scrollToLine } from './scroll.js';
+import { getLineText } from './document.js';
+import { getDocumentLineCount } from './viewport.js';
+import { scrollToGutterElement } from './gutters.js';
+import { formatSelection, getSelection } from './selection.js';
+
+/**
+ * Viewport coordinates of the character that starts at a document position.
+ * At a line end, the box is one pixel wide at the cursor spot.
+ */
+export interface CharacterBox {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Scroll a document position into view (vertically and horizontally) and return the
+ * viewport coordinates of the character that starts there, taken from `coordsAtPos`.
+ */
+export async function scrollToCharacter(
+  view: Locator,
+  position: DocumentPosition
+): Promise<CharacterBox> {
+  if (position.line < 1) {
+    throw new Error(`Line number must be >= 1, got ${position.line}`);
+  }
+
+  await scrollToLine(view, position.line, { position: 'center' });
+
+  const result = await view.evaluate((el, { line: lineNumber, col }) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) {
+      return { error: 'CodeMirror view not found on .cm-editor element (cmView is not set)' };
+    }
+
+    const doc = cmView.state.doc;
+    if (lineNumber > doc.lines) {
+      return { error: `Line ${lineNumber} is out of range (document has ${doc.lines} lines)` };
+    }
+    const line = doc.line(lineNumber);
+    if (col < 0 || col > line.length) {
+      return {
+        error: `Column ${col} is out of range (line ${lineNumber} has ${line.length} characters)`,
+      };
+    }
+
+    const pos = line.from + col;
+    const measure = () => {
+      const start = cmView.coordsAtPos(pos, 1);
+      if (!start) return null;
+      const end = pos < line.to ? cmView.coordsAtPos(pos + 1, -1) : null;
+      const right = end && end.top === start.top ? end.left : start.left + 1;
+      return { left: start.left, right, top: start.top, bottom: start.bottom };
+    };
+
+    // scrollToLine only scrolls vertically - bring long-line columns into view too
+    const scroller = el.querySelector('.cm-scroller') as HTMLElement;
+    const content = el.querySelector('.cm-content') as HTMLElement;
+    let box = measure();
+    if (box && scroller && content) {
+      const x = (box.left + box.right) / 2;
+      const scrollerRect = scroller.getBoundingClientRect();
+      const gutters = el.querySelector('.cm-gutters') as HTMLElement | null;
+      const visibleLeft = scrollerRect.left + (gutters ? gutters.offsetWidth : 0);
+      const visibleRight = scrollerRect.left + scroller.clientWidth;
+      if (x < visibleLeft || x > visibleRight) {
+        scroller.scrollLeft += x - (visibleLeft + visibleRight) / 2;
+        box = measure();
+      }
+    }
+
+    if (!box) {
+      return { error: `Position ${lineNumber}:${col} is not rendered after scrolling` };
+    }
+    return box;
+  }, position);
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+/**
+ * Scroll a position into view and return the point to press the mouse at so that
+ * CodeMirror puts the cursor exactly there: just right of the character's left edge,
+ * which is closest to the position and on the side of the character after it.
+ */
+async function scrollToCaretPoint(
+  view: Locator,
+  position: DocumentPosition
+): Promise<{ x: number; y: number }> {
+  const box = await scrollToCharacter(view, position);
+  return { x: box.left + (box.right - box.left) / 4, y: (box.top + box.bottom) / 2 };
+}
+
+/**
+ * Run a mouse action with keyboard modifiers held down, releasing them afterwards.
+ */
+async function withModifiers<T>(
+  page: Page,
+  modifiers: KeyboardModifier[],
+  action: () => Promise<T>
+): Promise<T> {
+  for (const modifier of modifiers) {
+    await page.keyboard.down(modifier);
+  }
+  try {
+    return await action();
+  } finally {
+    for (const modifier of [...modifiers].reverse()) {
+      await page.keyboard.up(modifier);
+    }
+  }
+}
+
+/**
+ * Click a document position with the real mouse.
+ *
+ * A single click puts the cursor at the position; double and triple clicks select the
+ * word or line there, the same as a user's clicks.
+ */
+export async function clickAt(
+  view: Locator,
+  position: DocumentPosition,
+  options: ClickAtOptions = {}
+): Promise<void> {
+  const { clickCount = 1, modifiers = [] } = options;
+  const { x, y } = await scrollToCaretPoint(view, position);
+  const page = view.page();
+
+  await withModifiers(page, modifiers, () => page.mouse.click(x, y, { clickCount }));
+}
+
+/**
+ * Select from one document position to another by dragging the mouse.
+ *
+ * The mouse is pressed at `from`, then `to` is scrolled into view while the button is
+ * held, and the mouse is moved there and released. CodeMirror keeps the anchor as a
+ * document position, so `from` may be scrolled out of the viewport on the way.
+ */
+export async function dragSelect(
+  view: Locator,
+  from: DocumentPosition,
+  to: DocumentPosition,
+  options: DragSelectOptions = {}
+): Promise<void> {
+  const { rectangular = false } = options;
+  const page = view.page();
+  // rectangularSelection() starts a rectangular selection on Alt-drag by default
+  const modifiers: KeyboardModifier[] = rectangular ? ['Alt'] : [];
+
+  const start = await scrollToCaretPoint(view, from);
+  await withModifiers(page, modifiers, async () => {
+    await page.mouse.move(start.x, start.y);
+    await page.mouse.down();
+    try {
+      const end = await scrollToCaretPoint(view, to);
+      await page.mouse.move(end.x, end.y, { steps: 5 });
+    } finally {
+      await page.mouse.up();
+    }
+  });
+}
+
+/**
+ * Click a line's element in the line-number gutter with the real mouse, so the gutter's
+ * `domEventHandlers` run, and check that the click selected the whole line (from its
+ * start to the start of the next line, or to the end of the last line). CodeMirror's
+ * `lineNumbers()` does not select lines by itself: the editor needs a handler that does.
+ */
+export async function clickLineNumber(
+  view: Locator,
+  lineNumber: number,
+  options: ClickLineNumberOptions = {}
+): Promise<void> {
+  const { modifiers = [] } = options;
+
+  const gutterElement = await scrollToGutterElement(view, '.cm-lineNumbers', lineNumber);
+  await withModifiers(view.page(), modifiers, () => gutterElement.click());
+
+  const selection = await getSelection(view);
+  const main = selection.ranges[selection.mainIndex];
+  const [start, end] =
+    main.anchor <= main.head
+      ? [main.anchorPosition, main.headPosition]
+      : [main.headPosition, main.anchorPosition];
+  const lineCount = await getDocumentLineCount(view);
+  const lineEnd =
+    lineNumber < lineCount
+      ? { line: lineNumber + 1, col: 0 }
+      : { line: lineNumber, col: (await getLineText(view, lineNumber)).length };
+  const selected =
+    start.line === lineNumber &&
+    start.col === 0 &&
+    end.line === lineEnd.line &&
+    end.col === lineEnd.col;
+  if (!selected) {
+    throw new Error(
+      `Clicking line number ${lineNumber} did not select the line ` +
+        `(selection is ${formatSelection(selection)}); ` +
+        'the line-number gutter needs a mousedown handler that selects it'
+    );
+  }
+}
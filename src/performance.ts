@@ -0,0 +1,184 @@
+import type { Locator } from '@playwright/test';
+import type { PerformanceReport, TimingSummary } from './types.js';
+
+interface RawTimings {
+  updates: number[];
+  measures: number[];
+  longTasks: number[];
+  linesBefore: number;
+  linesAfter: number;
+  maxLines: number;
+}
+
+function summarizeTimings(durations: number[]): TimingSummary {
+  return {
+    count: durations.length,
+    totalTime: durations.reduce((sum, duration) => sum + duration, 0),
+    maxTime: durations.reduce((max, duration) => Math.max(max, duration), 0),
+  };
+}
+
+/**
+ * Read Chromium's layout count through the DevTools protocol.
+ * Returns null in other browsers, where no CDP session can be opened.
+ */
+async function openLayoutCounter(
+  view: Locator
+): Promise<{ read: () => Promise<number>; close: () => Promise<void> } | null> {
+  const page = view.page();
+  try {
+    const session = await page.context().newCDPSession(page);
+    await session.send('Performance.enable');
+    return {
+      read: async () => {
+        const { metrics } = await session.send('Performance.getMetrics');
+        return metrics.find((metric) => metric.name === 'LayoutCount')?.value ?? 0;
+      },
+      close: () => session.detach(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Measure what an action costs the editor.
+ *
+ * CodeMirror's update and measure cycles are timed by wrapping the view's `update` and
+ * `measure` methods; long tasks come from a `longtask` PerformanceObserver and the
+ * layout count from Chromium's performance metrics. The `.cm-line` count is taken
+ * before the action, after every measure cycle and at the end.
+ *
+ * After the action, two animation frames are awaited so that the measure cycle the
+ * action scheduled is included.
+ */
+export async function measurePerformance(
+  view: Locator,
+  action: () => Promise<unknown>
+): Promise<PerformanceReport> {
+  const error = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc || typeof cmView.update !== 'function') {
+      return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if ((el as any).__performanceRecorder) {
+      return 'A performance measurement is already running for this editor';
+    }
+
+    const countLines = () => el.querySelectorAll('.cm-line').length;
+    const timings = {
+      updates: [] as number[],
+      measures: [] as number[],
+      longTasks: [] as number[],
+      linesBefore: countLines(),
+      linesAfter: 0,
+      maxLines: countLines(),
+    };
+
+    let recording = true;
+    const update = cmView.update;
+    const measure = cmView.measure;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const updateWrapper = function (this: unknown, ...args: any[]) {
+      if (!recording) return update.apply(this, args);
+      const start = performance.now();
+      try {
+        return update.apply(this, args);
+      } finally {
+        timings.updates.push(performance.now() - start);
+      }
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const measureWrapper = function (this: unknown, ...args: any[]) {
+      if (!recording) return measure.apply(this, args);
+      const start = performance.now();
+      try {
+        return measure.apply(this, args);
+      } finally {
+        timings.measures.push(performance.now() - start);
+        timings.maxLines = Math.max(timings.maxLines, countLines());
+      }
+    };
+    cmView.update = updateWrapper;
+    cmView.measure = measureWrapper;
+
+    let observer: PerformanceObserver | null = null;
+    try {
+      observer = new PerformanceObserver((list) => {
+        for (const entry of list.getEntries()) timings.longTasks.push(entry.duration);
+      });
+      observer.observe({ type: 'longtask' });
+    } catch {
+      // Long tasks are only reported by Chromium
+      observer = null;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (el as any).__performanceRecorder = {
+      stop: () => {
+        // Only unwind wrappers that are still on top (e.g. not wrapped by a viewport
+        // anchor since); the others stay in the chain as pass-throughs
+        recording = false;
+        if (cmView.update === updateWrapper) cmView.update = update;
+        if (cmView.measure === measureWrapper) cmView.measure = measure;
+        if (observer) {
+          for (const entry of observer.takeRecords()) timings.longTasks.push(entry.duration);
+          observer.disconnect();
+        }
+        timings.linesAfter = countLines();
+        timings.maxLines = Math.max(timings.maxLines, timings.linesAfter);
+        return timings;
+      },
+    };
+    return null;
+  });
+
+  if (error) {
+    throw new Error(error);
+  }
+
+  const layoutCounter = await openLayoutCounter(view);
+  let timings: RawTimings | null = null;
+  let duration = 0;
+  let layoutCount: number | null = null;
+  try {
+    const layoutsBefore = layoutCounter ? await layoutCounter.read() : 0;
+    const start = performance.now();
+    await action();
+    duration = performance.now() - start;
+
+    // Let the measure cycle scheduled by the action run
+    await view.evaluate(
+      () => new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+    );
+    if (layoutCounter) {
+      layoutCount = (await layoutCounter.read()) - layoutsBefore;
+    }
+  } finally {
+    timings = await view.evaluate((el) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const recorder = (el as any).__performanceRecorder;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (el as any).__performanceRecorder;
+      return recorder ? (recorder.stop() as RawTimings) : null;
+    });
+    await layoutCounter?.close();
+  }
+
+  if (!timings) {
+    throw new Error('Performance measurement was stopped before the action finished');
+  }
+
+  return {
+    duration,
+    updates: summarizeTimings(timings.updates),
+    measures: summarizeTimings(timings.measures),
+    longTasks: summarizeTimings(timings.longTasks),
+    layoutCount,
+    linesBefore: timings.linesBefore,
+    linesAfter: timings.linesAfter,
+    maxLines: timings.maxLines,
+  };
+}
@@ -0,0 +1,182 @@
+import type { Locator } from '@playwright/test';
+import type { RecordScrollOptions, ScrollFrame, ScrollSample, ScrollTrace } from './types.js';
+import { waitForScrollIdle } from './scroll.js';
+
+/**
+ * Check that each axis of a series of positions only ever moves in one direction.
+ */
+function isMonotonic(samples: ScrollSample[]): boolean {
+  for (const axis of ['scrollTop', 'scrollLeft'] as const) {
+    let direction = 0;
+    for (let i = 1; i < samples.length; i++) {
+      const delta = Math.sign(samples[i][axis] - samples[i - 1][axis]);
+      if (delta === 0) continue;
+      if (direction !== 0 && delta !== direction) return false;
+      direction = delta;
+    }
+  }
+  return true;
+}
+
+/**
+ * Add the summary fields to the samples collected in the page.
+ */
+function summarizeScrollTrace(
+  duration: number,
+  events: ScrollSample[],
+  frames: ScrollFrame[]
+): ScrollTrace {
+  const samples = [...events, ...frames].sort((a, b) => a.time - b.time);
+
+  let maxFrameGap = 0;
+  for (let i = 1; i < frames.length; i++) {
+    maxFrameGap = Math.max(maxFrameGap, frames[i].time - frames[i - 1].time);
+  }
+
+  return {
+    duration,
+    events,
+    frames,
+    monotonic: isMonotonic(samples),
+    maxFrameGap,
+    blankFrames: frames.filter((frame) => frame.blankHeight > 0),
+  };
+}
+
+/**
+ * Record the scroller's scroll events and animation frames while an action runs.
+ *
+ * Frames are sampled in a task posted from each animation frame callback, so they
+ * show the DOM as painted - after CodeMirror's own measure cycle for that frame.
+ * A frame is blank where a `.cm-gap` placeholder covers part of the visible area.
+ */
+export async function recordScroll(
+  view: Locator,
+  action: () => Promise<unknown>,
+  options: RecordScrollOptions = {}
+): Promise<ScrollTrace> {
+  const { waitForIdle = true } = options;
+  const scroller = view.locator('.cm-scroller');
+
+  const error = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    const scroller = el.querySelector('.cm-scroller') as HTMLElement | null;
+    if (!cmView?.state?.doc || !scroller) {
+      return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if ((el as any).__scrollRecorder) {
+      return 'A scroll recording is already running for this editor';
+    }
+
+    const start = performance.now();
+    const events: { time: number; scrollTop: number; scrollLeft: number }[] = [];
+    const frames: ((typeof events)[number] & {
+      renderedLines: { first: number; last: number };
+      visibleLines: { first: number; last: number };
+      blankHeight: number;
+    })[] = [];
+
+    const onScroll = () => {
+      events.push({
+        time: performance.now() - start,
+        scrollTop: scroller.scrollTop,
+        scrollLeft: scroller.scrollLeft,
+      });
+    };
+
+    const sampleFrame = (frameTime: number) => {
+      const doc = cmView.state.doc;
+      const lineAt = (pos: number) => doc.lineAt(pos).number as number;
+      const rect = scroller.getBoundingClientRect();
+      const gutters = el.querySelector('.cm-gutters') as HTMLElement | null;
+      const visibleLeft = rect.left + (gutters ? gutters.offsetWidth : 0);
+      const visibleBottom = rect.top + scroller.clientHeight;
+
+      // Heights in document coordinates at the top and bottom of the scroller
+      const top = Math.max(0, rect.top - cmView.documentTop);
+      const bottom = Math.max(top, top + scroller.clientHeight - 1);
+
+      let blankHeight = 0;
+      for (const gap of el.querySelectorAll('.cm-gap')) {
+        const gapRect = gap.getBoundingClientRect();
+        if (gapRect.right <= visibleLeft) continue;
+        blankHeight += Math.max(
+          0,
+          Math.min(gapRect.bottom, visibleBottom) - Math.max(gapRect.top, rect.top)
+        );
+      }
+
+      frames.push({
+        time: frameTime - start,
+        scrollTop: scroller.scrollTop,
+        scrollLeft: scroller.scrollLeft,
+        renderedLines: { first: lineAt(cmView.viewport.from), last: lineAt(cmView.viewport.to) },
+        visibleLines: {
+          first: lineAt(cmView.lineBlockAtHeight(top).from),
+          last: lineAt(cmView.lineBlockAtHeight(bottom).from),
+        },
+        blankHeight,
+      });
+    };
+
+    // Sample after the frame is painted: a task posted from the frame callback runs
+    // once every callback of the frame (including CodeMirror's) has updated the DOM
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => sampleFrame(event.data);
+    let frameId = 0;
+    const onFrame = (frameTime: number) => {
+      channel.port2.postMessage(frameTime);
+      frameId = requestAnimationFrame(onFrame);
+    };
+
+    scroller.addEventListener('scroll', onScroll, { passive: true });
+    frameId = requestAnimationFrame(onFrame);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (el as any).__scrollRecorder = {
+      stop: () => {
+        scroller.removeEventListener('scroll', onScroll);
+        cancelAnimationFrame(frameId);
+        channel.port1.close();
+        return { duration: performance.now() - start, events, frames };
+      },
+    };
+    return null;
+  });
+
+  if (error) {
+    throw new Error(error);
+  }
+
+  let recording: Awaited<ReturnType<typeof stopScrollRecording>> = null;
+  try {
+    await action();
+    if (waitForIdle) {
+      await waitForScrollIdle(scroller);
+    }
+  } finally {
+    recording = await stopScrollRecording(view);
+  }
+
+  if (!recording) {
+    throw new Error('Scroll recording was stopped before the action finished');
+  }
+  return summarizeScrollTrace(recording.duration, recording.events, recording.frames);
+}
+
+/**
+ * Stop the recording started by `recordScroll` and return the collected samples.
+ */
+async function stopScrollRecording(
+  view: Locator
+): Promise<{ duration: number; events: ScrollSample[]; frames: ScrollFrame[] } | null> {
+  return view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const recorder = (el as any).__scrollRecorder;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (el as any).__scrollRecorder;
+    return recorder ? recorder.stop() : null;
+  });
+}
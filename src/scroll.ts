@@ -1,11 +1,18 @@
 import type { Locator } from '@playwright/test';
 import type {
+  DocumentPosition,
   PartialScrollPosition,
+  ScrollColumnPosition,
   ScrollDimensions,
+  ScrollLinePosition,
   ScrollPosition,
+  ScrollToColumnOptions,
   ScrollToLineOptions,
   ScrollToOptions,
+  ScrollToPositionOptions,
+  ViewportAnchor,
 } from './types.js';
+import { getLinesInViewport } from './viewport.js';
 
 /**
  * Get the current scroll position of a scroller element.
@@ -171,3 +178,222 @@ export async function scrollToLine(
     await waitForScrollIdle(scroller);
   }
 }
+
+/**
+ * Scroll a document position into view with CodeMirror's `EditorView.scrollIntoView`
+ * effect, positioning it both vertically and horizontally.
+ *
+ * CodeMirror re-measures while scrolling, so lines far outside the viewport (with
+ * estimated heights) land where requested. Scroll margins such as a fixed gutter are
+ * taken into account, so `x: 'start'` puts the column just right of the gutters.
+ *
+ * `y` places the line like `scrollToLine`: its top at that fraction of the viewport
+ * height (`'center'` is 0.5), or its bottom at the bottom edge for `'bottom'` and 1.
+ * `margin` is added on top, away from the edge the line is aligned with.
+ */
+export async function scrollToPosition(
+  view: Locator,
+  position: DocumentPosition,
+  options: ScrollToPositionOptions = {}
+): Promise<void> {
+  const { x = 'start', y = 'top', margin = 0, waitForIdle = true } = options;
+  await scrollPositionIntoView(view, position, { x, y, margin, waitForIdle });
+}
+
+/**
+ * Scroll horizontally to a column of a line, scrolling vertically only as far as
+ * needed to show that line. Without a line, the line in the middle of the viewport
+ * is used.
+ */
+export async function scrollToColumn(
+  view: Locator,
+  col: number,
+  options: ScrollToColumnOptions = {}
+): Promise<void> {
+  const { x = 'start', margin = 0, waitForIdle = true } = options;
+  const line = options.line ?? (await getMiddleLine(view));
+  await scrollPositionIntoView(view, { line, col }, { x, y: 'nearest', margin, waitForIdle });
+}
+
+/**
+ * Get the number of the line in the vertical middle of the viewport.
+ */
+async function getMiddleLine(view: Locator): Promise<number> {
+  const line = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    const scroller = el.querySelector('.cm-scroller') as HTMLElement | null;
+    if (!cmView?.state?.doc || !scroller) return null;
+
+    const block = cmView.lineBlockAtHeight(scroller.scrollTop + scroller.clientHeight / 2);
+    return cmView.state.doc.lineAt(block.from).number as number;
+  });
+
+  if (line === null) {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+  return line;
+}
+
+async function scrollPositionIntoView(
+  view: Locator,
+  position: DocumentPosition,
+  options: {
+    x: ScrollColumnPosition;
+    y: ScrollLinePosition | 'nearest';
+    margin: number;
+    waitForIdle: boolean;
+  }
+): Promise<void> {
+  if (position.line < 1) {
+    throw new Error(`Line number must be >= 1, got ${position.line}`);
+  }
+  const { y } = options;
+  if (typeof y === 'number' && !(y >= 0 && y <= 1)) {
+    throw new Error(`Vertical position must be between 0 and 1, got ${y}`);
+  }
+
+  const { waitForIdle, ...scroll } = options;
+  const error = await view.evaluate(
+    async (el, { line: lineNumber, col, x, y, margin }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      const scroller = el.querySelector('.cm-scroller') as HTMLElement | null;
+      if (!cmView?.state?.doc || !cmView.dispatch || !scroller) {
+        return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+      }
+
+      const doc = cmView.state.doc;
+      if (lineNumber > doc.lines) {
+        return `Line ${lineNumber} is out of range (document has ${doc.lines} lines)`;
+      }
+      const line = doc.line(lineNumber);
+      if (col < 0 || col > line.length) {
+        return `Column ${col} is out of range (line ${lineNumber} has ${line.length} characters)`;
+      }
+
+      // Like scrollToLine, a fraction puts the line's top that far down the viewport,
+      // expressed as a margin above the line; 1 puts the line's bottom at the bottom
+      const fraction = y === 'top' ? 0 : y === 'center' ? 0.5 : y === 'bottom' ? 1 : y;
+      let cmY: string;
+      let yMargin = margin;
+      if (fraction === 'nearest') cmY = 'nearest';
+      else if (fraction >= 1) cmY = 'end';
+      else {
+        cmY = 'start';
+        yMargin = scroller.clientHeight * fraction + margin;
+      }
+
+      cmView.dispatch({
+        effects: cmView.constructor.scrollIntoView(line.from + col, {
+          x,
+          y: cmY,
+          xMargin: margin,
+          yMargin,
+        }),
+      });
+      // The scroll is applied in CodeMirror's next measure cycle
+      await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+      return null;
+    },
+    { ...position, ...scroll }
+  );
+
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (waitForIdle) {
+    await waitForScrollIdle(view.locator('.cm-scroller'));
+  }
+}
+
+/**
+ * Anchor the first visible line: record its document line and its pixel offset from the
+ * top of the scroller, and start tracking its position through later transactions.
+ *
+ * Tracking wraps the view's `update` method, so the anchored text can be found again
+ * after content is inserted or removed above it. Call `releaseViewportAnchor` to stop;
+ * only one anchor can be active per editor.
+ */
+export async function anchorViewport(view: Locator): Promise<ViewportAnchor> {
+  const info = await getLinesInViewport(view);
+  if (info.partiallyVisible.length === 0) {
+    throw new Error('No visible lines in viewport');
+  }
+
+  const result = await view.evaluate((el, lineNumber) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc || typeof cmView.update !== 'function') {
+      return { error: 'CodeMirror view not found on .cm-editor element (cmView is not set)' };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if ((el as any).__viewportAnchor) {
+      return { error: 'A viewport anchor is already active for this editor' };
+    }
+
+    const tracker = {
+      pos: cmView.state.doc.line(lineNumber).from as number,
+      active: true,
+      update: cmView.update,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      wrapper: function (this: unknown, transactions: any[]) {
+        if (tracker.active) {
+          for (const tr of transactions) tracker.pos = tr.changes.mapPos(tracker.pos, 1);
+        }
+        return tracker.update.call(this, transactions);
+      },
+    };
+    // Map the anchor through every transaction; insertions at the line start push it down
+    cmView.update = tracker.wrapper;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (el as any).__viewportAnchor = tracker;
+
+    const scrollerTop = cmView.scrollDOM.getBoundingClientRect().top;
+    const block = cmView.lineBlockAt(tracker.pos);
+    return { line: lineNumber, offset: block.top + cmView.documentTop - scrollerTop };
+  }, info.partiallyVisible[0].first);
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+/**
+ * Stop tracking the anchor set by `anchorViewport` and return where the anchored line
+ * is now: its current line number and pixel offset from the top of the scroller.
+ */
+export async function releaseViewportAnchor(view: Locator): Promise<ViewportAnchor> {
+  const result = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const tracker = (el as any).__viewportAnchor;
+    if (!cmView?.state?.doc || !tracker) {
+      return { error: 'Viewport anchor not found (was anchorViewport called?)' };
+    }
+
+    // If something wrapped `update` after us, unwinding would drop its wrapper: stay in
+    // the chain as a pass-through instead
+    tracker.active = false;
+    if (cmView.update === tracker.wrapper) cmView.update = tracker.update;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (el as any).__viewportAnchor;
+
+    const pos = Math.min(tracker.pos, cmView.state.doc.length);
+    const scrollerTop = cmView.scrollDOM.getBoundingClientRect().top;
+    const block = cmView.lineBlockAt(pos);
+    return {
+      line: cmView.state.doc.lineAt(pos).number as number,
+      offset: block.top + cmView.documentTop - scrollerTop,
+    };
+  });
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result;
+}
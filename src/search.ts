@@ -0,0 +1,129 @@
+import type { Locator } from '@playwright/test';
+import type { SearchMatch, SearchOptions } from './types.js';
+
+/**
+ * Locator for the `@codemirror/search` panel of an editor.
+ */
+export function searchPanel(view: Locator): Locator {
+  return view.locator('.cm-panel.cm-search');
+}
+
+/**
+ * Open the search panel through its `Mod-f` binding from `searchKeymap`.
+ */
+export async function openSearchPanel(view: Locator, timeout = 5000): Promise<void> {
+  const panel = searchPanel(view);
+  if (await panel.isVisible()) return;
+
+  await view.locator('.cm-content').press('ControlOrMeta+f');
+  await panel.waitFor({ state: 'visible', timeout });
+}
+
+/**
+ * Close the search panel with its close button.
+ */
+export async function closeSearchPanel(view: Locator, timeout = 5000): Promise<void> {
+  const panel = searchPanel(view);
+  if (!(await panel.isVisible())) return;
+
+  await panel.locator('button[name=close]').click();
+  await panel.waitFor({ state: 'detached', timeout });
+}
+
+/**
+ * Open the search panel and fill in the query and its options.
+ */
+export async function searchFor(
+  view: Locator,
+  query: string,
+  options: SearchOptions = {}
+): Promise<void> {
+  await openSearchPanel(view);
+  const panel = searchPanel(view);
+
+  // The panel commits its query on `change`/`keyup`, so fire `change` after each fill
+  const searchField = panel.locator('input[name=search]');
+  await searchField.fill(query);
+  await searchField.dispatchEvent('change');
+
+  if (options.replace !== undefined) {
+    const replaceField = panel.locator('input[name=replace]');
+    await replaceField.fill(options.replace);
+    await replaceField.dispatchEvent('change');
+  }
+
+  await panel.locator('input[name=case]').setChecked(options.caseSensitive ?? false);
+  await panel.locator('input[name=re]').setChecked(options.regexp ?? false);
+  await panel.locator('input[name=word]').setChecked(options.wholeWord ?? false);
+}
+
+/**
+ * Find every match of the search panel's current query in the whole document.
+ *
+ * Reads the query the editor has committed (the `@codemirror/search` state field's
+ * `SearchQuery`), not the panel inputs, and iterates it with its own `getCursor()`, so the
+ * matches are the ones the panel highlights and next/replace act on.
+ */
+export async function getSearchMatches(view: Locator): Promise<SearchMatch[]> {
+  const result = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.doc) return { error: 'no-view', matches: [] };
+
+    const state = cmView.state;
+    // The search state field holds `{ query: { spec: SearchQuery }, panel }`
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const searchState = (state.values ?? []).find((value: any) => {
+      return (
+        value &&
+        typeof value === 'object' &&
+        'panel' in value &&
+        typeof value.query?.spec?.getCursor === 'function'
+      );
+    });
+    if (!searchState?.panel) return { error: 'no-panel', matches: [] };
+
+    const query = searchState.query.spec;
+    // An empty or invalid query matches nothing, like the search panel
+    if (!query.valid) return { error: null, matches: [] };
+
+    const doc = state.doc;
+    const matches = [];
+    const cursor = query.getCursor(state);
+    for (let next = cursor.next(); !next.done; next = cursor.next()) {
+      const { from, to } = next.value as { from: number; to: number };
+      const line = doc.lineAt(from);
+      matches.push({
+        from,
+        to,
+        line: line.number as number,
+        col: from - line.from,
+        text: state.sliceDoc(from, to) as string,
+      });
+    }
+    return { error: null, matches };
+  });
+
+  if (result.error === 'no-panel') {
+    throw new Error('Search panel is not open (use searchFor() or openSearchPanel() first)');
+  }
+  if (result.error !== null) {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+
+  return result.matches;
+}
+
+/**
+ * Click one of the search panel's command buttons.
+ */
+export async function clickSearchButton(
+  view: Locator,
+  name: 'next' | 'prev' | 'select' | 'replace' | 'replaceAll'
+): Promise<void> {
+  const panel = searchPanel(view);
+  if (!(await panel.isVisible())) {
+    throw new Error('Search panel is not open (use searchFor() or openSearchPanel() first)');
+  }
+  await panel.locator(`button[name=${name}]`).click();
+}
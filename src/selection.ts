@@ -0,0 +1,159 @@
+import type { Locator } from '@playwright/test';
+import type {
+  DocumentPosition,
+  EditorSelectionInfo,
+  SelectionPoint,
+  SelectionRangeSpec,
+  SetSelectionOptions,
+} from './types.js';
+
+/**
+ * Get every range of the editor's selection, in offsets and line/column form.
+ */
+export async function getSelection(view: Locator): Promise<EditorSelectionInfo> {
+  const selection = await view.evaluate((el) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    if (!cmView?.state?.selection) return null;
+
+    const doc = cmView.state.doc;
+    const toPosition = (pos: number) => {
+      const line = doc.lineAt(pos);
+      return { line: line.number as number, col: pos - line.from };
+    };
+
+    const { ranges, mainIndex } = cmView.state.selection;
+    return {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      ranges: ranges.map((range: any) => ({
+        anchor: range.anchor as number,
+        head: range.head as number,
+        from: range.from as number,
+        to: range.to as number,
+        empty: range.empty as boolean,
+        anchorPosition: toPosition(range.anchor),
+        headPosition: toPosition(range.head),
+      })),
+      mainIndex: mainIndex as number,
+    };
+  });
+
+  if (selection === null) {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+
+  return selection;
+}
+
+/**
+ * Replace the editor's selection with one or more ranges.
+ */
+export async function setSelection(
+  view: Locator,
+  ranges: SelectionRangeSpec | SelectionRangeSpec[],
+  options: SetSelectionOptions = {}
+): Promise<void> {
+  const rangeList = Array.isArray(ranges) ? ranges : [ranges];
+  if (rangeList.length === 0) {
+    throw new Error('At least one selection range is required');
+  }
+
+  const mainIndex = options.mainIndex ?? 0;
+  if (mainIndex < 0 || mainIndex >= rangeList.length) {
+    throw new Error(`Main index ${mainIndex} is out of range for ${rangeList.length} ranges`);
+  }
+
+  const error = await view.evaluate(
+    (el, { ranges, mainIndex, userEvent, focus }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state?.selection || !cmView.dispatch) {
+        return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+      }
+
+      const doc = cmView.state.doc;
+      const resolve = (point: number | { line: number; col: number }): number | string => {
+        if (typeof point === 'number') {
+          if (point < 0 || point > doc.length) {
+            return `Offset ${point} is out of bounds (document length is ${doc.length})`;
+          }
+          return point;
+        }
+        if (point.line < 1 || point.line > doc.lines) {
+          return `Line ${point.line} is out of range (document has ${doc.lines} lines)`;
+        }
+        const line = doc.line(point.line);
+        if (point.col < 0 || point.col > line.length) {
+          return `Column ${point.col} is out of range (line ${point.line} has ${line.length} characters)`;
+        }
+        return line.from + point.col;
+      };
+
+      // EditorSelection isn't reachable from the page, but the current selection is an instance
+      const EditorSelection = cmView.state.selection.constructor;
+      const resolved = [];
+      for (const range of ranges) {
+        const anchor = resolve(range.anchor);
+        if (typeof anchor === 'string') return anchor;
+        const head = range.head === undefined ? anchor : resolve(range.head);
+        if (typeof head === 'string') return head;
+        resolved.push(EditorSelection.range(anchor, head));
+      }
+
+      const selection = EditorSelection.create(resolved, mainIndex);
+      cmView.dispatch(
+        userEvent === undefined ? { selection } : { selection, userEvent }
+      );
+      if (focus) cmView.focus();
+      return null;
+    },
+    {
+      ranges: rangeList,
+      mainIndex,
+      userEvent: options.userEvent,
+      focus: options.focus ?? false,
+    }
+  );
+
+  if (error !== null) {
+    throw new Error(error);
+  }
+}
+
+/**
+ * Check whether a selection range matches an expected range spec.
+ * Points given as offsets are compared to offsets, positions to positions.
+ */
+export function selectionRangeMatches(
+  actual: EditorSelectionInfo['ranges'][number],
+  expected: SelectionRangeSpec
+): boolean {
+  const pointMatches = (
+    offset: number,
+    position: DocumentPosition,
+    point: SelectionPoint
+  ): boolean =>
+    typeof point === 'number'
+      ? offset === point
+      : position.line === point.line && position.col === point.col;
+
+  const head = expected.head ?? expected.anchor;
+  return (
+    pointMatches(actual.anchor, actual.anchorPosition, expected.anchor) &&
+    pointMatches(actual.head, actual.headPosition, head)
+  );
+}
+
+/**
+ * Format a selection for matcher messages (`line:col` for each range, main range marked).
+ */
+export function formatSelection(selection: EditorSelectionInfo): string {
+  return selection.ranges
+    .map((range, index) => {
+      const anchor = `${range.anchorPosition.line}:${range.anchorPosition.col}`;
+      const head = `${range.headPosition.line}:${range.headPosition.col}`;
+      const text = range.empty ? head : `${anchor}-${head}`;
+      return index === selection.mainIndex ? `${text} (main)` : text;
+    })
+    .join(', ');
+}
@@ -0,0 +1,77 @@
+import type { Locator } from '@playwright/test';
+import type { EditorSnapshotOptions } from './types.js';
+import type { ExtensionRegistryManager } from './extensions.js';
+import { getDocumentText } from './document.js';
+import { formatSelection, getSelection } from './selection.js';
+import { readFoldedRanges } from './folding.js';
+import { formatLineRanges, getLinesWithSelectors } from './extension-lines.js';
+import { getLinesInViewport } from './viewport.js';
+
+/**
+ * Serialize the editor into a stable text snapshot for golden-file tests.
+ *
+ * The snapshot lists the document with line numbers, the selection, folded ranges,
+ * the lines carrying each registered extension entry and the visible line range.
+ * Everything is read from CodeMirror's state or mapped to document lines, so fonts and
+ * pixel sizes only affect the viewport section, which can be left out. For large
+ * documents, `document` can limit the listing to a line range or leave it out. Folds are
+ * listed only when the page exposes `foldedRanges` (see `getFoldedRanges()`).
+ *
+ * The viewport is read before the extensions, whose single scan scrolls through the
+ * document (the scroll position is restored afterwards).
+ */
+export async function serializeEditor(
+  view: Locator,
+  registry: ExtensionRegistryManager,
+  options: EditorSnapshotOptions = {}
+): Promise<string> {
+  const { document = true, viewport = true, extensions = true } = options;
+
+  const text = await getDocumentText(view);
+  const selection = await getSelection(view);
+  const folds = await readFoldedRanges(view);
+  const visible = viewport ? await getLinesInViewport(view) : null;
+
+  const lines = text.split('\n');
+  const sections: string[] = [];
+  if (document) {
+    const { first, last } = document === true ? { first: 1, last: lines.length } : document;
+    if (first < 1 || last > lines.length || first > last) {
+      throw new Error(
+        `Snapshot lines ${first}-${last} are out of range (document has ${lines.length} lines)`
+      );
+    }
+    const width = String(last).length;
+    const shown = document === true ? '' : `, showing ${formatLineRanges([{ first, last }])}`;
+    sections.push(
+      `Document (${lines.length} lines${shown}):`,
+      ...lines.slice(first - 1, last).map((line, i) => {
+        const number = String(first + i).padStart(width);
+        return line ? `${number} | ${line}` : `${number} |`;
+      }),
+      ''
+    );
+  }
+  sections.push(`Selection: ${formatSelection(selection)}`);
+  if (folds) sections.push(`Folded: ${formatLineRanges(folds)}`);
+
+  if (extensions) {
+    const entries = registry
+      .getRegisteredNames()
+      .flatMap((name) => registry.getKeys(name).map((key) => ({ name, key })));
+    const found = await getLinesWithSelectors(
+      view,
+      entries.map(({ name, key }) => registry.getSelector(name, key))
+    );
+    const formatted = entries.map(
+      ({ name, key }, i) => `  ${name}.${key}: ${formatLineRanges(found[i])}`
+    );
+    sections.push(formatted.length > 0 ? 'Extensions:' : 'Extensions: none', ...formatted);
+  }
+
+  if (visible) {
+    sections.push(`Viewport: ${formatLineRanges(visible.partiallyVisible)}`);
+  }
+
+  return `${sections.join('\n')}\n`;
+}
@@ -0,0 +1,194 @@
+import type { Locator } from '@playwright/test';
+import type { SetStateOptions, StateMarkers } from './types.js';
+import { getDocumentText } from './document.js';
+import { getSelection } from './selection.js';
+
+/**
+ * Document text and selection ranges read from a state notation string.
+ */
+export interface ParsedState {
+  text: string;
+  ranges: { anchor: number; head: number }[];
+}
+
+/**
+ * Fill in the default markers and check that they can be told apart.
+ */
+function resolveMarkers(markers: StateMarkers = {}): Required<StateMarkers> {
+  const resolved = {
+    cursor: markers.cursor ?? '|',
+    anchor: markers.anchor ?? '<',
+    head: markers.head ?? '>',
+  };
+  const values = Object.values(resolved);
+  if (values.some((marker) => marker.length === 0)) {
+    throw new Error('State markers must not be empty');
+  }
+  if (new Set(values).size !== values.length) {
+    throw new Error(`State markers must be distinct, got ${JSON.stringify(resolved)}`);
+  }
+  return resolved;
+}
+
+/**
+ * Split a state notation string into document text and selection ranges.
+ *
+ * The cursor marker (`|`) is an empty range. A range is written with the anchor
+ * marker (`<`) at its anchor and the head marker (`>`) at its head, so `<abc>` is a
+ * forward selection and `>abc<` a backward one. Ranges are returned in the order
+ * they appear.
+ */
+export function parseStateNotation(notation: string, markers?: StateMarkers): ParsedState {
+  const { cursor, anchor, head } = resolveMarkers(markers);
+  // Longer markers first, so a marker that starts with another one is found whole
+  const kinds: ['cursor' | 'anchor' | 'head', string][] = [
+    ['cursor', cursor],
+    ['anchor', anchor],
+    ['head', head],
+  ];
+  kinds.sort((a, b) => b[1].length - a[1].length);
+
+  let text = '';
+  const ranges: ParsedState['ranges'] = [];
+  let open: { kind: 'anchor' | 'head'; pos: number } | null = null;
+
+  let i = 0;
+  while (i < notation.length) {
+    const match = kinds.find(([, marker]) => notation.startsWith(marker, i));
+    if (!match) {
+      text += notation[i];
+      i++;
+      continue;
+    }
+
+    const [kind, marker] = match;
+    const pos = text.length;
+    if (kind === 'cursor') {
+      if (open) {
+        throw new Error(`Cursor marker "${marker}" at offset ${pos} is inside a selection`);
+      }
+      ranges.push({ anchor: pos, head: pos });
+    } else if (!open) {
+      open = { kind, pos };
+    } else if (open.kind === kind) {
+      throw new Error(
+        `Selection at offset ${open.pos} has two ${kind} markers "${marker}" (second at offset ${pos})`
+      );
+    } else {
+      ranges.push(
+        kind === 'head' ? { anchor: open.pos, head: pos } : { anchor: pos, head: open.pos }
+      );
+      open = null;
+    }
+    i += marker.length;
+  }
+
+  if (open) {
+    const missing = open.kind === 'anchor' ? head : anchor;
+    throw new Error(`Selection at offset ${open.pos} is not closed with "${missing}"`);
+  }
+
+  return { text, ranges };
+}
+
+/**
+ * Write document text and selection ranges as a state notation string.
+ * Markers at the same offset keep the order of their ranges.
+ */
+export function formatStateNotation(
+  text: string,
+  ranges: ParsedState['ranges'],
+  markers?: StateMarkers
+): string {
+  const { cursor, anchor, head } = resolveMarkers(markers);
+
+  const inserts: { pos: number; marker: string }[] = [];
+  for (const range of ranges) {
+    if (range.anchor === range.head) {
+      inserts.push({ pos: range.head, marker: cursor });
+    } else if (range.anchor < range.head) {
+      inserts.push({ pos: range.anchor, marker: anchor }, { pos: range.head, marker: head });
+    } else {
+      inserts.push({ pos: range.head, marker: head }, { pos: range.anchor, marker: anchor });
+    }
+  }
+  // Array.prototype.sort is stable, so equal offsets keep the range order
+  inserts.sort((a, b) => a.pos - b.pos);
+
+  let result = '';
+  let last = 0;
+  for (const { pos, marker } of inserts) {
+    result += text.slice(last, pos) + marker;
+    last = pos;
+  }
+  return result + text.slice(last);
+}
+
+/**
+ * Check whether the editor's text and selection match a parsed state.
+ * Ranges are compared in order by anchor and head; the main range is not compared.
+ */
+export function stateMatches(actual: ParsedState, expected: ParsedState): boolean {
+  return (
+    actual.text === expected.text &&
+    actual.ranges.length === expected.ranges.length &&
+    actual.ranges.every(
+      (range, i) =>
+        range.anchor === expected.ranges[i].anchor && range.head === expected.ranges[i].head
+    )
+  );
+}
+
+/**
+ * Read the document text and selection from CodeMirror's state.
+ */
+export async function getState(view: Locator): Promise<ParsedState> {
+  const text = await getDocumentText(view);
+  const { ranges } = await getSelection(view);
+  return { text, ranges: ranges.map(({ anchor, head }) => ({ anchor, head })) };
+}
+
+/**
+ * Replace the document and selection with the state written in a notation string,
+ * in a single transaction. Without markers, the cursor goes to the document start.
+ */
+export async function setState(
+  view: Locator,
+  notation: string,
+  options: SetStateOptions = {}
+): Promise<void> {
+  const { text, ranges } = parseStateNotation(notation, options.markers);
+
+  const error = await view.evaluate(
+    (el, { text, ranges, userEvent, focus }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state?.selection || !cmView.dispatch) {
+        return 'CodeMirror view not found on .cm-editor element (cmView is not set)';
+      }
+
+      // EditorSelection isn't reachable from the page, but the current selection is an instance
+      const EditorSelection = cmView.state.selection.constructor;
+      const selection = EditorSelection.create(
+        ranges.map((range) => EditorSelection.range(range.anchor, range.head)),
+        0
+      );
+      const changes = { from: 0, to: cmView.state.doc.length, insert: text };
+      cmView.dispatch(
+        userEvent === undefined ? { changes, selection } : { changes, selection, userEvent }
+      );
+      if (focus) cmView.focus();
+      return null;
+    },
+    {
+      text,
+      ranges: ranges.length > 0 ? ranges : [{ anchor: 0, head: 0 }],
+      userEvent: options.userEvent,
+      focus: options.focus ?? false,
+    }
+  );
+
+  if (error !== null) {
+    throw new Error(error);
+  }
+}
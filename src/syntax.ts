@@ -0,0 +1,192 @@
+import type { Locator } from '@playwright/test';
+import type { DocumentPosition, SyntaxNodeInfo, SyntaxNodeOptions, TokenSpan } from './types.js';
+import { getDocumentLineCount, getRenderedLines } from './viewport.js';
+import { scrollToLine } from './scroll.js';
+
+/**
+ * Get the highlighted spans of a line, scrolling it into view first if it isn't rendered.
+ *
+ * Spans are read from the rendered line: every text node with at least one class on an
+ * ancestor inside the line (excluding widgets) becomes a span, and adjacent text with the
+ * same classes is merged. Offsets come from `posAtDOM`.
+ */
+export async function getTokensOnLine(view: Locator, lineNumber: number): Promise<TokenSpan[]> {
+  if (lineNumber < 1) {
+    throw new Error(`Line number must be >= 1, got ${lineNumber}`);
+  }
+  const lineCount = await getDocumentLineCount(view);
+  if (lineNumber > lineCount) {
+    throw new Error(`Line ${lineNumber} is out of range (document has ${lineCount} lines)`);
+  }
+
+  let rendered = await getRenderedLines(view);
+  let line = rendered.lines.find((candidate) => candidate.line === lineNumber);
+  if (!line) {
+    await scrollToLine(view, lineNumber, { position: 'center' });
+    rendered = await getRenderedLines(view);
+    line = rendered.lines.find((candidate) => candidate.line === lineNumber);
+  }
+  if (!line) {
+    throw new Error(`Line ${lineNumber} not found after scrolling`);
+  }
+
+  const tokens = await view.locator('.cm-line').nth(line.index).evaluate((lineEl) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (lineEl.closest('.cm-editor') as any)?.cmView;
+    if (!cmView?.posAtDOM) return null;
+
+    const lineStart: number = cmView.state.doc.lineAt(cmView.posAtDOM(lineEl, 0)).from;
+    type Span = { from: number; to: number; col: number; text: string; classes: string[] };
+    const spans: Span[] = [];
+    const walker = document.createTreeWalker(lineEl, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const text = node.textContent ?? '';
+      if (!text) continue;
+
+      const classes: string[] = [];
+      let insideWidget = false;
+      for (let el = node.parentElement; el && el !== lineEl; el = el.parentElement) {
+        if (el.getAttribute('contenteditable') === 'false') insideWidget = true;
+        classes.unshift(...Array.from(el.classList));
+      }
+      if (insideWidget) continue;
+
+      const from: number = cmView.posAtDOM(node, 0);
+      const previous = spans[spans.length - 1];
+      if (
+        previous &&
+        previous.to === from &&
+        previous.classes.length === classes.length &&
+        previous.classes.every((cls, i) => cls === classes[i])
+      ) {
+        previous.to += text.length;
+        previous.text += text;
+      } else {
+        spans.push({ from, to: from + text.length, col: from - lineStart, text, classes });
+      }
+    }
+
+    // Unstyled text isn't a highlighted span
+    return spans.filter((span) => span.classes.length > 0);
+  });
+
+  if (tokens === null) {
+    throw new Error('CodeMirror view not found on .cm-editor element (cmView is not set)');
+  }
+
+  return tokens;
+}
+
+/**
+ * Get the innermost syntax node at a position from the Lezer tree in the page.
+ *
+ * Only the tree the editor has already parsed is read: it lives in `@codemirror/language`'s
+ * state field, found among the state's field values by its `tree` and parse `context`, and
+ * the parse context is never driven from here. If the tree doesn't reach the position yet,
+ * this waits up to `timeout` ms for the editor's background parser, which works ahead of
+ * the viewport on idle time, and then reports how far the tree got.
+ */
+export async function getSyntaxNodeAt(
+  view: Locator,
+  position: DocumentPosition,
+  options: SyntaxNodeOptions = {}
+): Promise<SyntaxNodeInfo> {
+  if (position.line < 1) {
+    throw new Error(`Line number must be >= 1, got ${position.line}`);
+  }
+  const { side = 1, timeout = 1000 } = options;
+
+  const result = await view.evaluate(
+    async (el, { line: lineNumber, col, side, timeout }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const cmView = (el as any).cmView;
+      if (!cmView?.state?.doc) {
+        return { error: 'CodeMirror view not found on .cm-editor element (cmView is not set)' };
+      }
+
+      const doc = cmView.state.doc;
+      if (lineNumber > doc.lines) {
+        return { error: `Line ${lineNumber} is out of range (document has ${doc.lines} lines)` };
+      }
+      const line = doc.line(lineNumber);
+      if (col < 0 || col > line.length) {
+        return {
+          error: `Column ${col} is out of range (line ${lineNumber} has ${line.length} characters)`,
+        };
+      }
+      const pos = line.from + col;
+
+      // The language state field value keeps the parsed `tree` next to its parse `context`
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const findTree = (state: any) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const languageState = (state.values ?? []).find((value: any) => {
+          return (
+            value &&
+            typeof value === 'object' &&
+            value.tree &&
+            typeof value.tree.resolveInner === 'function' &&
+            value.context &&
+            typeof value.context.isDone === 'function'
+          );
+        });
+        return languageState ? languageState.tree : null;
+      };
+
+      let tree = findTree(cmView.state);
+      if (!tree) {
+        return { error: 'No syntax tree found (is a language extension installed?)' };
+      }
+      const deadline = Date.now() + timeout;
+      while (tree.length < pos && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        if (cmView.state.doc !== doc) {
+          return { error: 'Document changed while waiting for the syntax tree' };
+        }
+        tree = findTree(cmView.state) ?? tree;
+      }
+      if (tree.length < pos) {
+        const parsed = `parsed up to offset ${tree.length}`;
+        return { error: `Syntax tree does not reach line ${lineNumber} yet (${parsed})` };
+      }
+
+      const node = tree.resolveInner(pos, side);
+      const ancestors: string[] = [];
+      for (let parent = node.parent; parent; parent = parent.parent) {
+        ancestors.push(parent.name);
+      }
+      return {
+        node: {
+          name: node.name as string,
+          from: node.from as number,
+          to: node.to as number,
+          text: doc.sliceString(node.from, node.to) as string,
+          ancestors,
+        },
+      };
+    },
+    { line: position.line, col: position.col, side, timeout }
+  );
+
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.node;
+}
+
+/**
+ * Check whether a node matches an expected name, or a path of names from the innermost
+ * node outwards (`['String', 'CallExpression']`).
+ */
+export function syntaxNodeMatches(node: SyntaxNodeInfo, expected: string | string[]): boolean {
+  const path = [node.name, ...node.ancestors];
+  const names = Array.isArray(expected) ? expected : [expected];
+  return names.length > 0 && names.every((name, i) => path[i] === name);
+}
+
+/**
+ * Format a node with its ancestry for matcher messages (`String < CallExpression < Script`).
+ */
+export function formatSyntaxNode(node: SyntaxNodeInfo): string {
+  return [node.name, ...node.ancestors].join(' < ');
+}
@@ -0,0 +1,53 @@
+import type {
+  CMEditorOptions,
+  CMEditorSource,
+  ExtensionRegistry,
+  TypedExtensions,
+} from './types.js';
+import { CMEditor } from './cm-editor.js';
+import { ExtensionRegistryManager } from './extensions.js';
+import { createEditorTest } from './fixture.js';
+
+/**
+ * Define extensions with their class mappings and get editors whose `ext()` is checked
+ * at compile time: unknown extension names or keys are type errors instead of runtime
+ * errors from `getSelector()`.
+ *
+ * The definitions live in their own registry, so they don't touch the global registry
+ * and are safe to use from parallel tests.
+ *
+ * @example
+ * ```typescript
+ * const extensions = defineExtensions({
+ *   diff: {
+ *     lineAddition: 'cm-diff-line-addition',
+ *     lineDeletion: 'cm-diff-line-deletion',
+ *   },
+ * });
+ *
+ * const editor = extensions.from(page);
+ * await expect(editor.ext('diff', 'lineAddition')).toHaveCount(3);
+ * editor.ext('diff', 'lineAdition'); // Type error
+ *
+ * // Or get the editor from the typed fixture
+ * extensions.test('shows additions', async ({ editor }) => {
+ *   await expect(editor.ext('diff', 'lineAddition')).toHaveCount(3);
+ * });
+ * ```
+ */
+export function defineExtensions<R extends ExtensionRegistry>(
+  definitions: R
+): TypedExtensions<R> {
+  const registry = new ExtensionRegistryManager<R>();
+  for (const [name, definition] of Object.entries(definitions)) {
+    registry.register(name, definition);
+  }
+
+  return {
+    registry,
+    from(source: CMEditorSource, options: Omit<CMEditorOptions<R>, 'registry'> = {}) {
+      return CMEditor.from<R>(source, { ...options, registry });
+    },
+    test: createEditorTest(definitions),
+  };
+}
@@ -1,11 +1,21 @@
-import type { Locator, Page } from '@playwright/test';
+import type {
+  Locator,
+  Page,
+  PlaywrightTestArgs,
+  PlaywrightTestOptions,
+  PlaywrightWorkerArgs,
+  PlaywrightWorkerOptions,
+  TestType,
+} from '@playwright/test';
 
+import type { CMEditor } from './cm-editor.js';
 import type { ExtensionRegistryManager } from './extensions.js';
 
 /**
- * Options for creating a CMEditor locator
+ * Options for creating a CMEditor locator.
+ * `R` is the shape of the extension registry (see `defineExtensions()`).
  */
-export interface CMEditorOptions {
+export interface CMEditorOptions<R extends ExtensionRegistry = ExtensionRegistry> {
   /**
    * Which editor to select when multiple exist (0-indexed)
    * @default 0
@@ -15,9 +25,91 @@ export interface CMEditorOptions {
    * Custom extension registry for test isolation (default: global registry)
    * Use a separate registry to avoid interference in parallel tests.
    */
-  registry?: ExtensionRegistryManager;
+  registry?: ExtensionRegistryManager<R>;
+}
+
+/**
+ * Identity of an editor for `CMEditor.find()`. All given criteria must match.
+ */
+export interface EditorQuery {
+  /**
+   * Accessible label of the editor content (`aria-label`, `aria-labelledby` or a
+   * `<label>`) or of the `.cm-editor` element
+   */
+  label?: string | RegExp;
+  /**
+   * ID of an element hosting the editor (any ancestor of `.cm-editor`)
+   */
+  hostId?: string;
+  /**
+   * Text the document contains, read from the editor state (includes virtualized lines)
+   */
+  containingText?: string | RegExp;
+}
+
+/**
+ * Options for `CMEditor.find()`
+ */
+export interface FindEditorOptions<R extends ExtensionRegistry = ExtensionRegistry>
+  extends Omit<CMEditorOptions<R>, 'nth'> {
+  /**
+   * Timeout in milliseconds to wait for a matching editor (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for editor count assertions
+ */
+export interface EditorCountAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Configuration of the `editor` test fixture, set with `test.use({ cmEditor: { ... } })`
+ */
+export interface CMEditorFixtureOptions {
+  /**
+   * Selector of the element to search for the editor in (default: the whole page)
+   */
+  selector?: string;
+  /**
+   * Which editor to select when multiple exist (0-indexed)
+   * @default 0
+   */
+  nth?: number;
+  /**
+   * Extensions registered on the test's own registry
+   */
+  extensions?: ExtensionRegistry;
+  /**
+   * Timeout in milliseconds for the editor to become ready (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Fixtures provided by the `test` exported from this package, or by the `test` of
+ * `defineExtensions()` with `R` as the typed registry
+ */
+export interface CMEditorFixtures<R extends ExtensionRegistry = ExtensionRegistry> {
+  /** Editor configuration (a fixture option, set with `test.use()`) */
+  cmEditor: CMEditorFixtureOptions;
+  /** Editor located with `cmEditor`, with a fresh extension registry for each test */
+  editor: CMEditor<R>;
 }
 
+/**
+ * Playwright `test` with the `cmEditor` option and `editor` fixture
+ */
+export type CMEditorTest<R extends ExtensionRegistry = ExtensionRegistry> = TestType<
+  PlaywrightTestArgs & PlaywrightTestOptions & CMEditorFixtures<R>,
+  PlaywrightWorkerArgs & PlaywrightWorkerOptions
+>;
+
 /**
  * Scroll position coordinates
  */
@@ -86,6 +178,49 @@ export interface ScrollToLineOptions {
   waitForIdle?: boolean;
 }
 
+/**
+ * Where to position a column horizontally when scrolling to it.
+ * 'nearest' only scrolls if the column is out of view.
+ */
+export type ScrollColumnPosition = 'start' | 'center' | 'end' | 'nearest';
+
+/**
+ * Options for scrollToPosition method
+ */
+export interface ScrollToPositionOptions {
+  /**
+   * Where to position the column horizontally (default: 'start')
+   */
+  x?: ScrollColumnPosition;
+  /**
+   * Where to position the line vertically, as in `scrollToLine` (default: 'top')
+   */
+  y?: ScrollLinePosition;
+  /**
+   * Space in pixels to keep between the position and the viewport edge it is aligned
+   * with, added to a fractional `y` (default: 0)
+   */
+  margin?: number;
+  /**
+   * Whether to wait for scroll to settle before returning (default: true)
+   */
+  waitForIdle?: boolean;
+}
+
+/**
+ * Options for scrollToColumn method
+ */
+export interface ScrollToColumnOptions extends Omit<ScrollToPositionOptions, 'y'> {
+  /**
+   * Line whose column to scroll to (default: the line in the middle of the viewport)
+   */
+  line?: number;
+  /**
+   * Where to position the column horizontally (default: 'start')
+   */
+  x?: ScrollColumnPosition;
+}
+
 /**
  * Options for scroll position assertions
  */
@@ -121,6 +256,109 @@ export interface ScrollabilityAssertionOptions {
   timeout?: number;
 }
 
+/**
+ * Options for viewport line visibility assertions
+ */
+export interface ViewportAssertionOptions {
+  /**
+   * Count lines with any portion in the viewport as visible (default: false)
+   */
+  partial?: boolean;
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for first visible line assertions
+ */
+export interface FirstVisibleLineAssertionOptions {
+  /**
+   * Number of lines the first visible line may differ by (default: 0)
+   */
+  tolerance?: number;
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Scroll position at a moment of a scroll recording
+ */
+export interface ScrollSample {
+  /** Milliseconds since the recording started */
+  time: number;
+  scrollTop: number;
+  scrollLeft: number;
+}
+
+/**
+ * An animation frame of a scroll recording, as painted
+ */
+export interface ScrollFrame extends ScrollSample {
+  /** Lines CodeMirror had rendered (its viewport, including the overscan margin) */
+  renderedLines: LineRange;
+  /** Lines within the visible area of the scroller */
+  visibleLines: LineRange;
+  /** Visible height in pixels covered by `.cm-gap` placeholders instead of text */
+  blankHeight: number;
+}
+
+/**
+ * Scroll events and frames recorded while an action ran, with summary values
+ */
+export interface ScrollTrace {
+  /** Length of the recording in milliseconds */
+  duration: number;
+  /** Every `scroll` event of the scroller */
+  events: ScrollSample[];
+  /** Every animation frame */
+  frames: ScrollFrame[];
+  /** Whether each axis only ever moved in one direction */
+  monotonic: boolean;
+  /** Longest time between two consecutive frames in milliseconds */
+  maxFrameGap: number;
+  /** Frames where part of the visible area was blank */
+  blankFrames: ScrollFrame[];
+}
+
+/**
+ * Options for recording scroll behavior
+ */
+export interface RecordScrollOptions {
+  /**
+   * Keep recording after the action until scrolling settles (default: true)
+   */
+  waitForIdle?: boolean;
+}
+
+/**
+ * The first visible line and where it sits in the scroller
+ */
+export interface ViewportAnchor {
+  /** 1-based document line number */
+  line: number;
+  /** Pixels from the top of the scroller to the top of the line (negative if cut off) */
+  offset: number;
+}
+
+/**
+ * Options for viewport stability assertions
+ */
+export interface ViewportStabilityAssertionOptions {
+  /**
+   * Pixels the anchored line may move by (default: 1)
+   */
+  tolerance?: number;
+  /**
+   * Maximum time to wait for scrolling to settle after the action in milliseconds
+   * (default: 1000)
+   */
+  timeout?: number;
+}
+
 /**
  * Options for scrollTo method
  */
@@ -132,58 +370,959 @@ export interface ScrollToOptions {
 }
 
 /**
- * Extension definition mapping keys to CSS class names
+ * A range of document offsets (0-based, `to` is exclusive)
  */
-export interface ExtensionDefinition {
-  [key: string]: string;
+export interface DocumentRange {
+  from: number;
+  to: number;
 }
 
 /**
- * Registry of all registered extensions
+ * A line/column position in the document.
+ * `line` is 1-based (like CodeMirror's line numbers), `col` is a 0-based character
+ * offset within the line.
  */
-export interface ExtensionRegistry {
-  [name: string]: ExtensionDefinition;
+export interface DocumentPosition {
+  line: number;
+  col: number;
 }
 
 /**
- * Source for CMEditor - can be Page or Locator
+ * Options for programmatic edits
  */
-export type CMEditorSource = Page | Locator;
+export interface EditOptions {
+  /**
+   * `userEvent` annotation for the transaction (e.g. 'input.type', 'delete', 'input.paste').
+   * Lets update listeners and filters treat the edit like the matching user action.
+   */
+  userEvent?: string;
+}
 
 /**
- * Custom matchers added to Playwright's expect
+ * A selection endpoint: a 0-based document offset or a line/column position
  */
-export interface CMEditorMatchers {
+export type SelectionPoint = number | DocumentPosition;
+
+/**
+ * A selection range to set or expect. Omit `head` for a cursor (empty range).
+ */
+export interface SelectionRangeSpec {
+  anchor: SelectionPoint;
+  head?: SelectionPoint;
+}
+
+/**
+ * A single range of the editor selection
+ */
+export interface SelectionRangeInfo {
+  /** Offset where the selection started */
+  anchor: number;
+  /** Offset where the selection ends (the cursor) */
+  head: number;
+  /** Lower of anchor and head */
+  from: number;
+  /** Upper of anchor and head */
+  to: number;
+  /** Whether the range is a cursor (anchor === head) */
+  empty: boolean;
+  anchorPosition: DocumentPosition;
+  headPosition: DocumentPosition;
+}
+
+/**
+ * The editor selection (CodeMirror's `EditorSelection`)
+ */
+export interface EditorSelectionInfo {
+  /** All ranges, sorted by position */
+  ranges: SelectionRangeInfo[];
+  /** Index of the main range in `ranges` */
+  mainIndex: number;
+}
+
+/**
+ * Options for setSelection method
+ */
+export interface SetSelectionOptions extends EditOptions {
   /**
-   * Assert that the editor has a specific scroll position.
-   * Uses retry polling to handle scroll animation timing.
+   * Index of the range to make the main selection (default: 0)
    */
-  toHaveScrollPosition(
-    expected: PartialScrollPosition,
-    options?: ScrollAssertionOptions
-  ): Promise<void>;
+  mainIndex?: number;
+  /**
+   * Whether to focus the editor after setting the selection (default: false)
+   */
+  focus?: boolean;
+}
 
+/**
+ * Options for selection assertions
+ */
+export interface SelectionAssertionOptions {
   /**
-   * Assert that the editor has a specific number of lines in the DOM.
-   *
-   * ⚠️ Due to CodeMirror's virtual rendering:
-   * - This only counts lines currently in the DOM, not all document lines
-   * - Lines may include off-screen anchors (like line 1 kept for scroll stability)
-   * - For true document line count, use toHaveDocumentLineCount()
+   * Timeout in milliseconds for retry polling (default: 5000)
    */
-  toHaveDOMLineCount(
-    expected: number,
-    options?: LineCountAssertionOptions
-  ): Promise<void>;
+  timeout?: number;
+}
+
+/**
+ * Markers used in state notation strings such as `'const |x = <1>;'`
+ */
+export interface StateMarkers {
+  /** Marks a cursor (empty selection range) (default: `'|'`) */
+  cursor?: string;
+  /** Marks the anchor of a selection range (default: `'<'`) */
+  anchor?: string;
+  /** Marks the head of a selection range (default: `'>'`) */
+  head?: string;
+}
 
+/**
+ * Options for reading the editor state as a notation string
+ */
+export interface StateNotationOptions {
   /**
-   * Assert that the editor document has a specific number of lines.
-   * Uses CodeMirror's internal state for accurate count regardless of virtual rendering.
+   * Markers to use instead of `|`, `<` and `>`, e.g. when the document contains them
    */
-  toHaveDocumentLineCount(
-    expected: number,
-    options?: LineCountAssertionOptions
-  ): Promise<void>;
+  markers?: StateMarkers;
+}
+
+/**
+ * Options for setState method
+ */
+export interface SetStateOptions extends EditOptions, StateNotationOptions {
+  /**
+   * Focus the editor after setting the state (default: false)
+   */
+  focus?: boolean;
+}
+
+/**
+ * Options for state notation assertions
+ */
+export interface StateAssertionOptions extends StateNotationOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * A folded region of the document.
+ * `first` and `last` are the lines that the fold joins into a single visual line.
+ */
+export interface FoldedRange extends LineRange {
+  /** Offset where the fold starts (0-based) */
+  from: number;
+  /** Offset where the fold ends (0-based, exclusive) */
+  to: number;
+}
+
+/**
+ * Options for fold assertions
+ */
+export interface FoldAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Severity of a lint diagnostic (as in `@codemirror/lint`)
+ */
+export type LintSeverity = 'hint' | 'info' | 'warning' | 'error';
+
+/**
+ * A lint diagnostic with its document range in offsets and line/column form
+ */
+export interface LintDiagnostic {
+  /** Start offset (0-based) */
+  from: number;
+  /** End offset (0-based, exclusive) */
+  to: number;
+  /** 1-based line of `from` */
+  line: number;
+  /** 0-based column of `from` */
+  col: number;
+  /** 1-based line of `to` */
+  endLine: number;
+  /** 0-based column of `to` */
+  endCol: number;
+  severity: LintSeverity;
+  message: string;
+  /** Source that produced the diagnostic, if the linter set one */
+  source?: string;
+}
+
+/**
+ * Partial diagnostic to match against. Only the given properties are compared;
+ * a string `message` matches as a substring.
+ */
+export interface LintDiagnosticMatcher {
+  line?: number;
+  col?: number;
+  severity?: LintSeverity;
+  message?: string | RegExp;
+  source?: string;
+}
+
+/**
+ * Options for waitForLintIdle method
+ */
+export interface WaitForLintIdleOptions {
+  /**
+   * Maximum time to wait in milliseconds (default: 5000)
+   */
+  timeout?: number;
+  /**
+   * How long the editor state must stay unchanged to count as idle, in ms (default: 100)
+   */
+  quietPeriod?: number;
+  /**
+   * Run pending lint sources immediately instead of waiting for the lint delay (default: false)
+   */
+  force?: boolean;
+}
+
+/**
+ * Options for lint assertions
+ */
+export interface LintAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Query options for the search panel (mirrors its checkboxes)
+ */
+export interface SearchOptions {
+  /**
+   * Match case ("match case" checkbox, default: false)
+   */
+  caseSensitive?: boolean;
+  /**
+   * Treat the query as a regular expression ("regexp" checkbox, default: false)
+   */
+  regexp?: boolean;
+  /**
+   * Only match whole words ("by word" checkbox, default: false)
+   */
+  wholeWord?: boolean;
+  /**
+   * Text for the replace field (left unchanged if omitted)
+   */
+  replace?: string;
+}
+
+/**
+ * A search match in the document
+ */
+export interface SearchMatch {
+  /** Start offset (0-based) */
+  from: number;
+  /** End offset (0-based, exclusive) */
+  to: number;
+  /** 1-based line of `from` */
+  line: number;
+  /** 0-based column of `from` */
+  col: number;
+  /** Matched text */
+  text: string;
+}
+
+/**
+ * A match of `findLines()`: a search match with the text of its line
+ */
+export interface LineMatch extends SearchMatch {
+  /** Full text of the matching line */
+  lineText: string;
+}
+
+/**
+ * Options for `scrollToTextAndLocate()`
+ */
+export interface ScrollToTextOptions extends ScrollToLineOptions {
+  /**
+   * Which matching line to scroll to when the text occurs on more than one line
+   * (0-indexed). A line with several matches counts once.
+   * @default 0
+   */
+  nth?: number;
+  /**
+   * Timeout in milliseconds for the line to be rendered (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for search assertions
+ */
+export interface SearchAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * An option in the autocompletion tooltip
+ */
+export interface CompletionOption {
+  /** Option label (`.cm-completionLabel`) */
+  label: string;
+  /** Detail text shown after the label, if any (`.cm-completionDetail`) */
+  detail?: string;
+  /** Completion type from the option's `cm-completionIcon-<type>` class, if any */
+  type?: string;
+  /** Whether this option is currently selected */
+  selected: boolean;
+}
+
+/**
+ * Options for waiting on completion sources
+ */
+export interface WaitForCompletionOptions {
+  /**
+   * Maximum time to wait in milliseconds (default: 5000)
+   */
+  timeout?: number;
+  /**
+   * Time in milliseconds the completion state must stay unchanged
+   * with no queries running (default: 100)
+   */
+  quietPeriod?: number;
+}
+
+/**
+ * Options for autocompletion assertions
+ */
+export interface CompletionAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Keyboard modifier held during a mouse action
+ */
+export type KeyboardModifier = 'Alt' | 'Control' | 'ControlOrMeta' | 'Meta' | 'Shift';
+
+/**
+ * Options for clicking a document position
+ */
+export interface ClickAtOptions {
+  /**
+   * Number of clicks: 2 selects a word, 3 a line (default: 1)
+   */
+  clickCount?: number;
+
+  /**
+   * Modifiers held during the click, e.g. `['Shift']` to extend the selection
+   */
+  modifiers?: KeyboardModifier[];
+}
+
+/**
+ * Options for clicking a line number with `clickLineNumber()`
+ */
+export interface ClickLineNumberOptions {
+  /**
+   * Modifiers held during the gutter click, passed on to the gutter's event handler
+   */
+  modifiers?: KeyboardModifier[];
+}
+
+/**
+ * Options for selecting with a mouse drag
+ */
+export interface DragSelectOptions {
+  /**
+   * Hold Alt while dragging to make a rectangular selection (default: false).
+   * Requires the `rectangularSelection()` extension.
+   */
+  rectangular?: boolean;
+}
+
+/**
+ * Options for hovering a document position
+ */
+export interface HoverOptions {
+  /**
+   * Maximum time to wait for the hover tooltip in milliseconds (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * A tooltip currently shown by the editor
+ */
+export interface TooltipInfo {
+  /** Text content of the tooltip */
+  text: string;
+  /** CSS classes of the tooltip element (e.g. `cm-tooltip-hover`, `cm-tooltip-autocomplete`) */
+  classes: string[];
+  /** Whether this is a hover tooltip (`.cm-tooltip-hover`) */
+  hover: boolean;
+}
+
+/**
+ * Options for tooltip assertions
+ */
+export interface TooltipAssertionOptions {
+  /**
+   * Text the tooltip must contain, or a pattern it must match
+   */
+  containing?: string | RegExp;
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * A highlighted span of a rendered line
+ */
+export interface TokenSpan {
+  /** Start offset (0-based) */
+  from: number;
+  /** End offset (0-based, exclusive) */
+  to: number;
+  /** 0-based column of `from` */
+  col: number;
+  /** Text of the span */
+  text: string;
+  /** CSS classes of the span's elements inside the line, outermost first */
+  classes: string[];
+}
+
+/**
+ * A node of the Lezer syntax tree
+ */
+export interface SyntaxNodeInfo {
+  /** Node type name (e.g. `VariableName`) */
+  name: string;
+  /** Start offset (0-based) */
+  from: number;
+  /** End offset (0-based, exclusive) */
+  to: number;
+  /** Document text covered by the node */
+  text: string;
+  /** Names of the enclosing nodes, innermost first, up to the top node */
+  ancestors: string[];
+}
+
+/**
+ * Options for syntaxNodeAt method
+ */
+export interface SyntaxNodeOptions {
+  /**
+   * Which side of the position to look at, as in Lezer's `resolveInner`:
+   * -1 for nodes ending at the position, 1 for nodes starting at it (default: 1)
+   */
+  side?: -1 | 0 | 1;
+  /**
+   * Time in milliseconds to wait for the editor's parser to reach the position (default: 1000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for syntax and highlighting assertions
+ */
+export interface SyntaxAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for scanning the whole document for lines with an extension entry
+ */
+export interface LineScanOptions {
+  /**
+   * Maximum time in milliseconds for the scan (default: 30000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for extension assertions
+ */
+export interface ExtensionAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Side of a merge view: `a` (usually the original) or `b` (usually the changed version)
+ */
+export type MergeSide = 'a' | 'b';
+
+/**
+ * Options for selecting a `@codemirror/merge` view
+ */
+export interface CMMergeViewOptions {
+  /**
+   * Which merge view to select when multiple exist (0-indexed)
+   * @default 0
+   */
+  nth?: number;
+  /**
+   * Extension registry for the `a` and `b` editors (default: global registry)
+   */
+  registry?: ExtensionRegistryManager;
+}
+
+/**
+ * A changed chunk of a merge view, with its lines on both sides
+ */
+export interface MergeChunk {
+  /** Changed lines in document A, or null if the chunk only adds lines to B */
+  a: LineRange | null;
+  /** Changed lines in document B, or null if the chunk only removes lines from A */
+  b: LineRange | null;
+  /** Offset where the chunk starts in document A (0-based) */
+  fromA: number;
+  /** Offset past the chunk in document A (0-based, may be past the document end) */
+  toA: number;
+  /** Offset where the chunk starts in document B (0-based) */
+  fromB: number;
+  /** Offset past the chunk in document B (0-based, may be past the document end) */
+  toB: number;
+}
+
+/**
+ * A region of unchanged lines collapsed by `collapseUnchanged`
+ */
+export interface CollapsedRegion {
+  /** Editor the region is in */
+  side: MergeSide;
+  /** Collapsed lines (1-based, inclusive) */
+  lines: LineRange;
+}
+
+/**
+ * Options for merge view assertions
+ */
+export interface MergeAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for the editor snapshot serializer
+ */
+export interface EditorSnapshotOptions {
+  /**
+   * Include the document (default: true). A line range only lists those lines, and
+   * `false` leaves the document out, e.g. for very large documents.
+   */
+  document?: boolean | LineRange;
+  /**
+   * Include the visible line range (default: true).
+   * Turn off when line heights differ between machines, e.g. with system fonts.
+   */
+  viewport?: boolean;
+  /**
+   * Include the lines carrying each registered extension entry (default: true).
+   * The entries are found in one scan of the whole document; turn off to skip it.
+   */
+  extensions?: boolean;
+}
+
+/**
+ * Options for toMatchEditorSnapshot assertion
+ */
+export interface EditorSnapshotAssertionOptions extends EditorSnapshotOptions {
+  /**
+   * Snapshot file name (default: generated from the test title, with a `.txt` extension)
+   */
+  name?: string;
+}
+
+/**
+ * Count and duration of a kind of work during a performance measurement
+ */
+export interface TimingSummary {
+  /** Number of occurrences */
+  count: number;
+  /** Combined duration in milliseconds */
+  totalTime: number;
+  /** Longest single duration in milliseconds */
+  maxTime: number;
+}
+
+/**
+ * What an action cost the editor, as returned by `measure()`
+ */
+export interface PerformanceReport {
+  /** Wall-clock time of the action in milliseconds, including Playwright round trips */
+  duration: number;
+  /** CodeMirror update cycles (applying transactions) */
+  updates: TimingSummary;
+  /** CodeMirror measure cycles (reading and writing layout) */
+  measures: TimingSummary;
+  /** Long tasks (over 50ms) reported by the browser; Chromium only */
+  longTasks: TimingSummary;
+  /** Number of layouts the browser performed; null outside Chromium */
+  layoutCount: number | null;
+  /** `.cm-line` elements in the DOM before the action */
+  linesBefore: number;
+  /** `.cm-line` elements in the DOM after the action */
+  linesAfter: number;
+  /** Most `.cm-line` elements in the DOM at any measure cycle during the action */
+  maxLines: number;
+}
+
+/**
+ * Options for the toCompleteWithin assertion
+ */
+export interface PerformanceBudgetOptions {
+  /**
+   * Which time to check (default: 'editor'):
+   * - 'editor': time CodeMirror spent in update and measure cycles, in the page
+   * - 'wall': wall-clock duration of the action, including Playwright round trips
+   */
+  time?: 'editor' | 'wall';
+}
+
+/**
+ * Options for document text assertions
+ */
+export interface TextAssertionOptions {
+  /**
+   * Timeout in milliseconds for retry polling (default: 5000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Where an extension's elements live in the editor DOM
+ * - 'line': `.cm-line` elements themselves (line decorations)
+ * - 'mark': elements inside lines (mark decorations)
+ * - 'widget': widget elements (`contenteditable="false"`) in the content, or inside them
+ * - 'gutter': elements in the gutters (optionally in one gutter, see `gutter`)
+ */
+export type ExtensionScope = 'line' | 'gutter' | 'widget' | 'mark';
+
+/**
+ * Structured description of an extension's elements
+ */
+export interface ExtensionElementSpec {
+  /**
+   * Class name, or class names the element must all have
+   */
+  class?: string | string[];
+  /**
+   * Attributes the element must have: a string matches the exact value,
+   * `true` only requires the attribute to be present
+   */
+  attrs?: Record<string, string | true>;
+  /**
+   * Where the element lives (default: anywhere in the editor)
+   */
+  scope?: ExtensionScope;
+  /**
+   * Class of the gutter to look in, for `scope: 'gutter'` (e.g. 'cm-lint-gutter')
+   */
+  gutter?: string;
+}
+
+/**
+ * An explicit CSS selector entry, for selectors that read as a class name in a string
+ * entry (e.g. the tag selector `span`)
+ */
+export interface ExtensionSelector {
+  /**
+   * Selector relative to `.cm-editor`
+   */
+  selector: string;
+}
+
+/**
+ * An extension entry: a CSS class name (`cm-diff-line-addition`, letters, digits, `_` and
+ * `-` only), a full selector (`.cm-diff.cm-added`, `[data-diff="add"]`), an explicit
+ * selector (`{ selector: 'span' }`) or a structured element description
+ */
+export type ExtensionEntry = string | ExtensionSelector | ExtensionElementSpec;
+
+/**
+ * Extension definition mapping keys to class names, selectors or element descriptions
+ */
+export interface ExtensionDefinition {
+  [key: string]: ExtensionEntry;
+}
+
+/**
+ * Registry of all registered extensions.
+ * Typed registries use a literal shape instead, e.g. `{ diff: { lineAddition: string } }`.
+ */
+export interface ExtensionRegistry {
+  [name: string]: ExtensionDefinition;
+}
+
+/**
+ * Extension names of a registry shape
+ */
+export type ExtensionName<R extends ExtensionRegistry> = keyof R & string;
+
+/**
+ * Keys of one extension in a registry shape
+ */
+export type ExtensionKey<R extends ExtensionRegistry, N extends ExtensionName<R>> =
+  keyof R[N] & string;
+
+/**
+ * Source for CMEditor - can be Page or Locator
+ */
+export type CMEditorSource = Page | Locator;
+
+/**
+ * Typed extension definitions returned by `defineExtensions()`
+ */
+export interface TypedExtensions<R extends ExtensionRegistry> {
+  /**
+   * Registry holding the definitions, typed with their names and keys
+   */
+  readonly registry: ExtensionRegistryManager<R>;
+  /**
+   * Create a CMEditor whose `ext()` only accepts the defined names and keys
+   */
+  from(source: CMEditorSource, options?: Omit<CMEditorOptions<R>, 'registry'>): CMEditor<R>;
+  /**
+   * Playwright `test` whose `editor` fixture only accepts the defined names and keys.
+   * Each test gets a fresh registry with the definitions and the `cmEditor` extensions.
+   */
+  readonly test: CMEditorTest<R>;
+}
+
+/**
+ * Custom matchers added to Playwright's expect
+ */
+export interface CMEditorMatchers {
+  /**
+   * Assert that the editor has a specific scroll position.
+   * Uses retry polling to handle scroll animation timing.
+   */
+  toHaveScrollPosition(
+    expected: PartialScrollPosition,
+    options?: ScrollAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that the editor has a specific number of lines in the DOM.
+   *
+   * ⚠️ Due to CodeMirror's virtual rendering:
+   * - This only counts lines currently in the DOM, not all document lines
+   * - Lines may include off-screen anchors (like line 1 kept for scroll stability)
+   * - For true document line count, use toHaveDocumentLineCount()
+   */
+  toHaveDOMLineCount(
+    expected: number,
+    options?: LineCountAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that the editor document has a specific number of lines.
+   * Uses CodeMirror's internal state for accurate count regardless of virtual rendering.
+   */
+  toHaveDocumentLineCount(
+    expected: number,
+    options?: LineCountAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that the full document text equals the expected string (or matches a RegExp).
+   * Reads from CodeMirror's state, so virtualized lines are included.
+   */
+  toHaveDocumentText(
+    expected: string | RegExp,
+    options?: TextAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that a document line has the expected text (or matches a RegExp).
+   * Reads from CodeMirror's state, so the line does not need to be rendered.
+   */
+  toHaveLineText(
+    lineNumber: number,
+    expected: string | RegExp,
+    options?: TextAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that the document text contains the expected substring.
+   */
+  toContainDocumentText(expected: string, options?: TextAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that the selection consists of exactly the expected ranges, in document order.
+   * Points may be offsets or line/column positions.
+   */
+  toHaveSelection(
+    expected: SelectionRangeSpec | SelectionRangeSpec[],
+    options?: SelectionAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that the main selection is a cursor at the given position.
+   */
+  toHaveCursorAt(expected: DocumentPosition, options?: SelectionAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the number of selection ranges (cursors).
+   */
+  toHaveSelectionCount(expected: number, options?: SelectionAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the document text and selection together, written in state notation
+   * (`|` cursor, `<` anchor, `>` head). Shows a diff of notation strings on failure.
+   */
+  toMatchState(expected: string, options?: StateAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that a fold joins lines `first` through `last`.
+   */
+  toHaveFoldedRange(expected: LineRange, options?: FoldAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the number of folded ranges in the document.
+   */
+  toHaveFoldCount(expected: number, options?: FoldAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that at least one lint diagnostic matches the given properties.
+   * Diagnostics outside the viewport are included.
+   */
+  toHaveLintDiagnostic(
+    expected: LintDiagnosticMatcher,
+    options?: LintAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert the number of lint diagnostics in the document.
+   */
+  toHaveLintDiagnosticCount(expected: number, options?: LintAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the number of matches of the search panel's query in the whole document.
+   */
+  toHaveSearchMatches(expected: number, options?: SearchAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the labels of the options in the autocompletion tooltip, in order.
+   */
+  toHaveCompletionOptions(expected: string[], options?: CompletionAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the label of the selected option in the autocompletion tooltip.
+   */
+  toHaveSelectedCompletion(expected: string, options?: CompletionAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that the editor shows a tooltip, optionally containing the given text.
+   */
+  toHaveOpenTooltip(options?: TooltipAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that the highlighted span covering a position has a CSS class.
+   */
+  toHaveTokenClass(
+    position: DocumentPosition,
+    className: string,
+    options?: SyntaxAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert the innermost syntax node at a position, by name or by a path of names
+   * from the innermost node outwards.
+   */
+  toHaveSyntaxNodeAt(
+    position: DocumentPosition,
+    expected: string | string[],
+    options?: SyntaxAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert exactly which document lines carry an extension entry, across the whole
+   * document (not only the rendered lines).
+   */
+  toHaveExtOnLines(
+    extensionName: string,
+    key: string,
+    expected: LineRange[],
+    options?: ExtensionAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert the number of CodeMirror editors (`.cm-editor`) in a page or locator.
+   */
+  toHaveEditorCount(expected: number, options?: EditorCountAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the number of changed chunks in a merge view (`expect(mergeView)`).
+   */
+  toHaveChunkCount(expected: number, options?: MergeAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that a merge view has a chunk with the given lines on side A and/or B
+   * (`null` for a side without lines).
+   */
+  toHaveChunk(
+    expected: { a?: LineRange | null; b?: LineRange | null },
+    options?: MergeAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that a line is visible in the viewport (fully, or partially with `partial`).
+   */
+  toHaveLineVisible(lineNumber: number, options?: ViewportAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that every line of a range is visible in the viewport.
+   */
+  toHaveLinesInViewport(expected: LineRange, options?: ViewportAssertionOptions): Promise<void>;
+
+  /**
+   * Assert the first (at least partially) visible line of the viewport.
+   */
+  toHaveFirstVisibleLine(
+    expected: number,
+    options?: FirstVisibleLineAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that the first visible line stays put while an action runs.
+   */
+  toKeepViewportStableDuring(
+    action: () => Promise<unknown>,
+    options?: ViewportStabilityAssertionOptions
+  ): Promise<void>;
+
+  /**
+   * Assert that the editor's text snapshot (document, selection, folds, extensions and
+   * viewport) matches the stored snapshot file. Update with `--update-snapshots`.
+   */
+  toMatchEditorSnapshot(nameOrOptions?: string | EditorSnapshotAssertionOptions): Promise<void>;
+
+  /**
+   * Assert that a measured action took at most the given time (`expect(report)`):
+   * CodeMirror's update and measure time by default, or the wall-clock duration.
+   */
+  toCompleteWithin(ms: number, options?: PerformanceBudgetOptions): void;
+
+  /**
+   * Assert that a measured action never had more `.cm-line` elements in the DOM
+   * than the given count (`expect(report)`).
+   */
+  toRenderAtMostLines(expected: number): void;
 
   /**
    * Assert that the editor is scrollable horizontally.
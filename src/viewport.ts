@@ -1,110 +1,185 @@
 import type { Locator } from '@playwright/test';
-import type { ViewportLineInfo } from './types.js';
+import type { LineRange, ViewportLineInfo } from './types.js';
 
 /**
- * Get information about which lines are currently visible in the viewport.
+ * A rendered `.cm-line` element resolved to its document line
  */
-export async function getLinesInViewport(view: Locator): Promise<ViewportLineInfo> {
-  return view.evaluate((el) => {
-    const scroller = el.querySelector('.cm-scroller') as HTMLElement;
-    if (!scroller) {
-      return { fullyVisible: [], partiallyVisible: [] };
-    }
-
-    const scrollerRect = scroller.getBoundingClientRect();
-    const lines = el.querySelectorAll('.cm-line');
-    const gutterElements = el.querySelectorAll(
-      '.cm-lineNumbers .cm-gutterElement'
-    );
-
-    // Build a map of gutter top positions to line numbers
-    // CodeMirror includes placeholder elements for width calculation - skip them
-    const gutterTopToLineNum = new Map<number, number>();
-    for (const gutterEl of gutterElements) {
-      const rect = gutterEl.getBoundingClientRect();
+export interface RenderedLine {
+  /** 1-based document line number (the first line of a folded block) */
+  line: number;
+  /** Index of the element among the editor's `.cm-line` elements */
+  index: number;
+  /** Client rect top of the element */
+  top: number;
+  /** Client rect bottom of the element */
+  bottom: number;
+}
 
-      // Skip placeholder elements (they have height 0 or are positioned off-screen)
-      if (rect.height === 0 || rect.top < -1000) {
-        continue;
-      }
+/**
+ * Rendered lines and the scroller bounds they are compared against
+ */
+export interface RenderedLines {
+  /**
+   * How line numbers were resolved:
+   * - 'view': `cmView.posAtDOM` and `lineBlockAt` (any editor exposing `cmView`)
+   * - 'gutter': `.cm-lineNumbers` text matched to line tops (needs default number formatting)
+   */
+  strategy: 'view' | 'gutter';
+  scrollerTop: number;
+  scrollerBottom: number;
+  lines: RenderedLine[];
+}
 
-      const text = gutterEl.textContent?.trim();
-      if (text && /^\d+$/.test(text)) {
-        const lineNum = parseInt(text, 10);
-        // Round to avoid floating point issues
-        gutterTopToLineNum.set(Math.round(rect.top), lineNum);
-      }
-    }
+/**
+ * Resolve every rendered `.cm-line` element to its document line number.
+ *
+ * The view strategy is picked whenever the CodeMirror view is available, so editors
+ * without a line-number gutter (or with a custom `formatNumber`) work. The gutter
+ * strategy is the fallback for pages that don't expose `cmView`.
+ */
+export async function getRenderedLines(view: Locator): Promise<RenderedLines> {
+  return view.evaluate((el) => {
+    const scroller = el.querySelector('.cm-scroller') as HTMLElement | null;
+    const scrollerRect = scroller?.getBoundingClientRect();
+    const lineElements = Array.from(el.querySelectorAll('.cm-line'));
+    const lines: { line: number; index: number; top: number; bottom: number }[] = [];
 
-    // Collect visibility info for each line
-    const fullyVisibleLines: number[] = [];
-    const partiallyVisibleLines: number[] = [];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cmView = (el as any).cmView;
+    const useView =
+      cmView?.state?.doc &&
+      typeof cmView.posAtDOM === 'function' &&
+      typeof cmView.lineBlockAt === 'function';
+
+    if (useView) {
+      lineElements.forEach((lineEl, index) => {
+        // Lines are direct children of the content element; skip lines of nested editors
+        if (lineEl.parentElement !== cmView.contentDOM) return;
+
+        let pos: number;
+        try {
+          pos = cmView.posAtDOM(lineEl, 0);
+        } catch {
+          return;
+        }
+        // A folded block is drawn as one line element starting on the block's first line
+        const block = cmView.lineBlockAt(pos);
+        const rect = lineEl.getBoundingClientRect();
+        lines.push({
+          line: cmView.state.doc.lineAt(block.from).number,
+          index,
+          top: rect.top,
+          bottom: rect.bottom,
+        });
+      });
+    } else {
+      // Build a map of gutter top positions to line numbers
+      // CodeMirror includes placeholder elements for width calculation - skip them
+      const gutterTopToLineNum = new Map<number, number>();
+      for (const gutterEl of el.querySelectorAll('.cm-lineNumbers .cm-gutterElement')) {
+        const rect = gutterEl.getBoundingClientRect();
 
-    for (const line of lines) {
-      const lineRect = line.getBoundingClientRect();
-      const lineTop = Math.round(lineRect.top);
+        // Skip placeholder elements (they have height 0 or are positioned off-screen)
+        if (rect.height === 0 || rect.top < -1000) {
+          continue;
+        }
 
-      // Find the matching line number from gutter
-      let lineNum: number | undefined;
-      for (const [gutterTop, num] of gutterTopToLineNum.entries()) {
-        if (Math.abs(lineTop - gutterTop) < 5) {
-          lineNum = num;
-          break;
+        const text = gutterEl.textContent?.trim();
+        if (text && /^\d+$/.test(text)) {
+          // Round to avoid floating point issues
+          gutterTopToLineNum.set(Math.round(rect.top), parseInt(text, 10));
         }
       }
 
-      if (lineNum === undefined) continue;
+      lineElements.forEach((lineEl, index) => {
+        const rect = lineEl.getBoundingClientRect();
+        const lineTop = Math.round(rect.top);
+        for (const [gutterTop, num] of gutterTopToLineNum.entries()) {
+          if (Math.abs(lineTop - gutterTop) < 5) {
+            lines.push({ line: num, index, top: rect.top, bottom: rect.bottom });
+            break;
+          }
+        }
+      });
+    }
 
-      // Check visibility
-      const fullyVisible =
-        lineRect.top >= scrollerRect.top &&
-        lineRect.bottom <= scrollerRect.bottom;
-      const partiallyVisible =
-        lineRect.bottom > scrollerRect.top &&
-        lineRect.top < scrollerRect.bottom;
+    return {
+      strategy: useView ? ('view' as const) : ('gutter' as const),
+      scrollerTop: scrollerRect?.top ?? 0,
+      scrollerBottom: scrollerRect?.bottom ?? 0,
+      lines,
+    };
+  });
+}
 
-      if (fullyVisible) {
-        fullyVisibleLines.push(lineNum);
-      }
-      if (partiallyVisible) {
-        partiallyVisibleLines.push(lineNum);
-      }
+/**
+ * Check whether a rendered line lies within the scroller bounds.
+ */
+function isWithinScroller(rendered: RenderedLines, line: RenderedLine, partial: boolean): boolean {
+  if (partial) {
+    return line.bottom > rendered.scrollerTop && line.top < rendered.scrollerBottom;
+  }
+  return line.top >= rendered.scrollerTop && line.bottom <= rendered.scrollerBottom;
+}
+
+/**
+ * Group sorted line numbers into ranges of consecutive lines.
+ */
+export function toLineRanges(lineNums: number[]): LineRange[] {
+  if (lineNums.length === 0) return [];
+
+  const ranges: LineRange[] = [];
+  let rangeStart = lineNums[0];
+  let rangeEnd = lineNums[0];
+
+  for (let i = 1; i < lineNums.length; i++) {
+    if (lineNums[i] === rangeEnd + 1) {
+      // Continue current range
+      rangeEnd = lineNums[i];
+    } else {
+      // Gap detected, start new range
+      ranges.push({ first: rangeStart, last: rangeEnd });
+      rangeStart = lineNums[i];
+      rangeEnd = lineNums[i];
     }
+  }
+  // Don't forget the last range
+  ranges.push({ first: rangeStart, last: rangeEnd });
 
-    // Sort line numbers
-    fullyVisibleLines.sort((a, b) => a - b);
-    partiallyVisibleLines.sort((a, b) => a - b);
+  return ranges;
+}
 
-    // Convert to ranges (handles folded regions creating gaps)
-    const toRanges = (lineNums: number[]): { first: number; last: number }[] => {
-      if (lineNums.length === 0) return [];
+/**
+ * Get information about which lines are currently visible in the viewport.
+ */
+export async function getLinesInViewport(view: Locator): Promise<ViewportLineInfo> {
+  const rendered = await getRenderedLines(view);
+  if (rendered.scrollerBottom === rendered.scrollerTop) {
+    return { fullyVisible: [], partiallyVisible: [] };
+  }
 
-      const ranges: { first: number; last: number }[] = [];
-      let rangeStart = lineNums[0];
-      let rangeEnd = lineNums[0];
+  // Collect visibility info for each line
+  const fullyVisibleLines: number[] = [];
+  const partiallyVisibleLines: number[] = [];
 
-      for (let i = 1; i < lineNums.length; i++) {
-        if (lineNums[i] === rangeEnd + 1) {
-          // Continue current range
-          rangeEnd = lineNums[i];
-        } else {
-          // Gap detected, start new range
-          ranges.push({ first: rangeStart, last: rangeEnd });
-          rangeStart = lineNums[i];
-          rangeEnd = lineNums[i];
-        }
-      }
-      // Don't forget the last range
-      ranges.push({ first: rangeStart, last: rangeEnd });
+  for (const line of rendered.lines) {
+    if (isWithinScroller(rendered, line, false)) {
+      fullyVisibleLines.push(line.line);
+    }
+    if (isWithinScroller(rendered, line, true)) {
+      partiallyVisibleLines.push(line.line);
+    }
+  }
 
-      return ranges;
-    };
+  // Sort line numbers
+  fullyVisibleLines.sort((a, b) => a - b);
+  partiallyVisibleLines.sort((a, b) => a - b);
 
-    return {
-      fullyVisible: toRanges(fullyVisibleLines),
-      partiallyVisible: toRanges(partiallyVisibleLines),
-    };
-  });
+  // Convert to ranges (handles folded regions creating gaps)
+  return {
+    fullyVisible: toLineRanges(fullyVisibleLines),
+    partiallyVisible: toLineRanges(partiallyVisibleLines),
+  };
 }
 
 /**
@@ -115,24 +190,8 @@ export async function isLineRendered(view: Locator, lineNumber: number): Promise
     throw new Error(`Line number must be >= 1, got ${lineNumber}`);
   }
 
-  return view.evaluate((el, targetLineNum) => {
-    const gutterElements = el.querySelectorAll(
-      '.cm-lineNumbers .cm-gutterElement'
-    );
-
-    for (const gutterEl of gutterElements) {
-      // Skip placeholder elements (they have height 0 or are positioned off-screen)
-      const rect = gutterEl.getBoundingClientRect();
-      if (rect.height === 0 || rect.top < -1000) {
-        continue;
-      }
-
-      if (gutterEl.textContent?.trim() === String(targetLineNum)) {
-        return true;
-      }
-    }
-    return false;
-  }, lineNumber);
+  const rendered = await getRenderedLines(view);
+  return rendered.lines.some((line) => line.line === lineNumber);
 }
 
 /**
@@ -147,60 +206,11 @@ export async function isLineVisible(
     throw new Error(`Line number must be >= 1, got ${lineNumber}`);
   }
 
-  return view.evaluate(
-    (el, { targetLineNum, partial }) => {
-      const scroller = el.querySelector('.cm-scroller') as HTMLElement;
-      if (!scroller) return false;
-
-      const scrollerRect = scroller.getBoundingClientRect();
-      const gutterElements = el.querySelectorAll(
-        '.cm-lineNumbers .cm-gutterElement'
-      );
-
-      // Find the gutter element for the target line
-      // Skip placeholder elements (they have height 0 or are positioned off-screen)
-      let targetGutterEl: Element | null = null;
-      for (const gutterEl of gutterElements) {
-        const rect = gutterEl.getBoundingClientRect();
-        if (rect.height === 0 || rect.top < -1000) {
-          continue;
-        }
-
-        if (gutterEl.textContent?.trim() === String(targetLineNum)) {
-          targetGutterEl = gutterEl;
-          break;
-        }
-      }
-
-      if (!targetGutterEl) return false;
-
-      // Find the corresponding line element
-      const gutterRect = targetGutterEl.getBoundingClientRect();
-      const gutterTop = gutterRect.top;
-
-      const lines = el.querySelectorAll('.cm-line');
-      for (const line of lines) {
-        const lineRect = line.getBoundingClientRect();
-        if (Math.abs(lineRect.top - gutterTop) < 5) {
-          // Found the line, check visibility
-          if (partial) {
-            return (
-              lineRect.bottom > scrollerRect.top &&
-              lineRect.top < scrollerRect.bottom
-            );
-          } else {
-            return (
-              lineRect.top >= scrollerRect.top &&
-              lineRect.bottom <= scrollerRect.bottom
-            );
-          }
-        }
-      }
+  const rendered = await getRenderedLines(view);
+  if (rendered.scrollerBottom === rendered.scrollerTop) return false;
 
-      return false;
-    },
-    { targetLineNum: lineNumber, partial }
-  );
+  const line = rendered.lines.find((candidate) => candidate.line === lineNumber);
+  return line !== undefined && isWithinScroller(rendered, line, partial);
 }
 
 /**
@@ -216,47 +226,21 @@ export async function getDocumentLineNumber(
     throw new Error('Line element not found');
   }
 
-  // Find the matching gutter element by comparing positions within the same context
-  const lineNumber = await view.evaluate(
-    (el, lineEl) => {
-      if (!lineEl) return null;
-
-      const lineRect = lineEl.getBoundingClientRect();
-      const gutterElements = el.querySelectorAll(
-        '.cm-lineNumbers .cm-gutterElement'
-      );
-
-      // CodeMirror includes placeholder elements in gutters for width calculation
-      // These are absolutely positioned off-screen or have height:0
-      // We need to filter these out by checking if the element is visible
-      for (const gutterEl of gutterElements) {
-        const gutterRect = gutterEl.getBoundingClientRect();
-
-        // Skip placeholder elements (they have height 0 or are positioned off-screen)
-        if (gutterRect.height === 0 || gutterRect.top < -1000) {
-          continue;
-        }
-
-        // Compare viewport-relative coordinates directly
-        if (Math.abs(gutterRect.top - lineRect.top) < 5) {
-          const text = gutterEl.textContent?.trim();
-          if (text && /^\d+$/.test(text)) {
-            return parseInt(text, 10);
-          }
-        }
-      }
-      return null;
-    },
-    lineElement
-  );
+  // Locate the element among the editor's lines, then resolve it like any rendered line
+  const index = await view.evaluate((el, lineEl) => {
+    const line = lineEl?.closest('.cm-line');
+    return line ? Array.from(el.querySelectorAll('.cm-line')).indexOf(line) : -1;
+  }, lineElement);
 
   await lineElement.dispose();
 
-  if (lineNumber === null) {
+  const rendered = index === -1 ? undefined : await getRenderedLines(view);
+  const line = rendered?.lines.find((candidate) => candidate.index === index);
+  if (!line) {
     throw new Error('Could not determine line number for element');
   }
 
-  return lineNumber;
+  return line.line;
 }
 
 /**
@@ -0,0 +1,94 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor autocompletion', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/completion.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('triggerCompletion() opens the tooltip with filtered options', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.triggerCompletion({ line: 2, col: 3 });
+
+    await expect(editor.completionTooltip).toBeVisible();
+    await expect(editor).toHaveCompletionOptions(['console', 'const', 'continue']);
+  });
+
+  test('completionOptions() reports label, detail, type and selection', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.triggerCompletion({ line: 2, col: 3 });
+
+    const options = await editor.completionOptions();
+    expect(options[0]).toEqual({
+      label: 'console',
+      detail: 'global',
+      type: 'variable',
+      selected: true,
+    });
+    expect(options[1]).toEqual({
+      label: 'const',
+      detail: undefined,
+      type: 'keyword',
+      selected: false,
+    });
+  });
+
+  test('triggerCompletion() waits for async sources', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.triggerCompletion({ line: 3, col: 3 });
+
+    // The async source answers after 300ms; no polling needed once settled
+    const options = await editor.completionOptions();
+    expect(options.map((o) => o.label)).toEqual(['fetchData', 'fetchUser']);
+  });
+
+  test('selectCompletion() moves the selection', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.triggerCompletion({ line: 2, col: 3 });
+    await expect(editor).toHaveSelectedCompletion('console');
+
+    await editor.selectCompletion('continue');
+    await expect(editor).toHaveSelectedCompletion('continue');
+
+    await editor.selectCompletion('const');
+    await expect(editor).toHaveSelectedCompletion('const');
+  });
+
+  test('selectCompletion() waits out the interaction delay of a new list', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.clickAt({ line: 2, col: 3 });
+    await page.keyboard.press('Control+Space');
+    await expect(editor.completionTooltip).toBeVisible();
+
+    await editor.selectCompletion('continue');
+    await expect(editor).toHaveSelectedCompletion('continue');
+    await expect(editor).toHaveLineText(2, 'con');
+  });
+
+  test('acceptCompletion() inserts the option', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.triggerCompletion({ line: 3, col: 3 });
+    await editor.acceptCompletion('fetchUser');
+
+    await expect(editor.completionTooltip).toHaveCount(0);
+    await expect(editor).toHaveLineText(3, 'fetchUser');
+  });
+
+  test('selectCompletion() throws for an unknown label', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.triggerCompletion({ line: 2, col: 3 });
+
+    await expect(editor.selectCompletion('missing')).rejects.toThrow(
+      'Completion "missing" not found (options: console, const, continue)'
+    );
+  });
+
+  test('toHaveCompletionOptions([]) passes when nothing matches', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.triggerCompletion({ line: 4, col: 3 });
+
+    await expect(editor).toHaveCompletionOptions([]);
+    await expect(editor).not.toHaveCompletionOptions(['console'], { timeout: 500 });
+  });
+});
@@ -0,0 +1,125 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor document text', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('text() returns the full document', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    const text = await editor.text();
+    expect(text.split('\n')).toHaveLength(13);
+    expect(text.startsWith('Line 1: Hello\nLine 2: World')).toBe(true);
+  });
+
+  test('lineText() returns a single line without line break', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    expect(await editor.lineText(5)).toBe('Line 5: Added');
+  });
+
+  test('lineText() throws for out-of-range lines', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await expect(editor.lineText(0)).rejects.toThrow('Line number must be >= 1');
+    await expect(editor.lineText(14)).rejects.toThrow('Line 14 is out of range');
+  });
+
+  test('textInRange() returns text between offsets', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    expect(await editor.textInRange({ from: 0, to: 6 })).toBe('Line 1');
+    await expect(editor.textInRange({ from: 0, to: 100000 })).rejects.toThrow('out of bounds');
+  });
+
+  test('toHaveLineText() and toContainDocumentText() pass', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await expect(editor).toHaveLineText(2, 'export function example() {');
+    await expect(editor).toHaveLineText(50, /console\.log\("Line 50"\)/);
+    await expect(editor).toContainDocumentText('// End of file');
+  });
+
+  test('text matchers reset lastIndex of global patterns', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const pattern = /export function/g;
+    await expect(editor).toHaveLineText(2, pattern);
+    await expect(editor).toHaveLineText(2, pattern);
+    await expect(editor).toHaveDocumentText(pattern);
+  });
+
+  test('toHaveDocumentText() shows a diff on failure', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    const expected = (await editor.text()).replace('Line 6: Added', 'Line 6: Changed');
+
+    const error = await expect(editor)
+      .toHaveDocumentText(expected, { timeout: 500 })
+      .catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('- Line 6: Changed');
+    expect((error as Error).message).toContain('+ Line 6: Added');
+  });
+});
+
+test.describe('CMEditor document text (large file)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/large-editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('lineText() reads virtualized lines without scrolling', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    expect(await editor.isLineRendered(900)).toBe(false);
+    expect(await editor.lineText(900)).toBe(
+      '// Line 900: This is line number 900 with some content'
+    );
+    await expect(editor).toHaveScrollPosition({ scrollTop: 0 });
+  });
+
+  test('toHaveDocumentText() covers the whole document', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await expect(editor).toHaveDocumentText(/\/\/ End of file$/);
+    await expect(editor).toContainDocumentText('This is line number 999');
+  });
+
+  test('findLines() searches virtualized lines in state', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    expect(await editor.isLineRendered(900)).toBe(false);
+
+    const matches = await editor.findLines('// Line 900:');
+    expect(matches).toEqual([
+      {
+        from: expect.any(Number),
+        to: expect.any(Number),
+        line: 900,
+        col: 0,
+        text: '// Line 900:',
+        lineText: '// Line 900: This is line number 900 with some content',
+      },
+    ]);
+    await expect(editor).toHaveScrollPosition({ scrollTop: 0 });
+  });
+
+  test('findLines() returns every match of a pattern with columns', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const matches = await editor.findLines(/number 99\d\b/);
+    expect(matches.map((m) => m.line)).toEqual([990, 991, 992, 993, 994, 995, 996, 997, 998, 999]);
+    expect(matches[0]).toMatchObject({ col: 26, text: 'number 990' });
+
+    // Both occurrences of "42" on line 42
+    const perLine = await editor.findLines(/\b42\b/);
+    expect(perLine.map((m) => [m.line, m.col])).toEqual([
+      [42, 8],
+      [42, 32],
+    ]);
+    expect(await editor.findLines('not in the document')).toEqual([]);
+  });
+
+  test('findLines() does not overlap text matches', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setState('aaaaa');
+
+    const matches = await editor.findLines('aa');
+    expect(matches.map((m) => m.col)).toEqual([0, 2]);
+  });
+});
@@ -0,0 +1,64 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor editing', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('setText() replaces the whole document', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setText('one\ntwo\nthree');
+    await expect(editor).toHaveDocumentText('one\ntwo\nthree');
+    await expect(editor).toHaveDocumentLineCount(3);
+  });
+
+  test('insertAt() inserts at line and column', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await editor.insertAt({ line: 2, col: 8 }, 'Big ');
+    await expect(editor).toHaveLineText(2, 'Line 2: Big World');
+  });
+
+  test('insertAt() throws for positions outside the document', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await expect(editor.insertAt({ line: 99, col: 0 }, 'x')).rejects.toThrow(
+      'Line 99 is out of range'
+    );
+    await expect(editor.insertAt({ line: 1, col: 200 }, 'x')).rejects.toThrow(
+      'Column 200 is out of range'
+    );
+  });
+
+  test('replaceRange() replaces text between offsets', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await editor.replaceRange({ from: 0, to: 4 }, 'Row');
+    await expect(editor).toHaveLineText(1, 'Row 1: Hello');
+  });
+
+  test('deleteLines() removes whole lines', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await editor.deleteLines(2, 4);
+    await expect(editor).toHaveDocumentLineCount(10);
+    await expect(editor).toHaveLineText(2, 'Line 5: Added');
+
+    // Deleting through the last line removes the preceding line break
+    await editor.deleteLines(10);
+    await expect(editor).toHaveDocumentLineCount(9);
+    await expect(editor).toHaveLineText(9, 'Line 12: Removed');
+  });
+
+  test('edits carry the userEvent annotation to update listeners', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.insertAt({ line: 1, col: 0 }, 'x', { userEvent: 'input.type' });
+    await editor.deleteLines(1, 1, { userEvent: 'delete' });
+    await editor.setText('plain');
+
+    const log = await page.evaluate(() => (window as unknown as { editLog: unknown[] }).editLog);
+    expect(log).toEqual([
+      { userEvent: 'input.type' },
+      { userEvent: 'delete' },
+      { userEvent: null },
+    ]);
+  });
+});
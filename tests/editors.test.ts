@@ -0,0 +1,90 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor multi-editor discovery', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/multi-editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('all() returns one editor per .cm-editor in DOM order', async ({ page }) => {
+    const editors = await CMEditor.all(page);
+
+    expect(editors).toHaveLength(6);
+    await expect(editors[0]).toHaveLineText(1, '// File: index.ts');
+    await expect(editors[5]).toHaveLineText(1, '# File: notes.md');
+
+    const inPane = await CMEditor.all(page.locator('#pane-3'));
+    expect(inPane).toHaveLength(1);
+    await expect(inPane[0]).toHaveLineText(1, '// File: utils.ts');
+  });
+
+  test('find() selects an editor by accessible label', async ({ page }) => {
+    const editor = await CMEditor.find(page, { label: 'app.ts' });
+    await expect(editor).toHaveLineText(2, 'export function app() {}');
+
+    const css = await CMEditor.find(page, { label: /\.css$/ });
+    await expect(css).toHaveLineText(1, '/* File: styles.css */');
+  });
+
+  test('find() selects an editor by host ID', async ({ page }) => {
+    const editor = await CMEditor.find(page, { hostId: 'pane-5' });
+    await expect(editor).toHaveLineText(2, 'body { margin: 0; }');
+  });
+
+  test('find() selects an editor by document text outside the viewport', async ({ page }) => {
+    const editor = await CMEditor.find(page, { containingText: 'export function deepInside' });
+
+    await expect(editor).toHaveDocumentLineCount(900);
+    expect(await editor.isLineRendered(900)).toBe(false);
+  });
+
+  test('find() combines criteria', async ({ page }) => {
+    const editor = await CMEditor.find(page, { containingText: /^export/m, label: 'utils.ts' });
+    await expect(editor).toHaveLineText(1, '// File: utils.ts');
+  });
+
+  test('find() by label keeps working when the layout changes', async ({ page }) => {
+    const editor = await CMEditor.find(page, { label: 'notes.md' });
+
+    // Move the pane to the front; an index-based editor would now point elsewhere
+    await page.evaluate(() => {
+      const panes = document.getElementById('panes')!;
+      panes.prepend(document.getElementById('pane-6')!);
+    });
+
+    await expect(editor).toHaveLineText(1, '# File: notes.md');
+  });
+
+  test('find() throws when no editor or several editors match', async ({ page }) => {
+    await expect(CMEditor.find(page, { label: 'missing.ts' }, { timeout: 300 })).rejects.toThrow(
+      'No editor found matching label "missing.ts" within 300ms'
+    );
+    await expect(CMEditor.find(page, { containingText: 'File:' })).rejects.toThrow(
+      '6 editors match text "File:"'
+    );
+    await expect(CMEditor.find(page, {})).rejects.toThrow('needs at least one of');
+  });
+
+  test('find() waits for editors that appear later', async ({ page }) => {
+    await page.evaluate(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      setTimeout(() => (window as any).openEditor('late.ts', '// File: late.ts'), 300);
+    });
+
+    const editor = await CMEditor.find(page, { label: 'late.ts' });
+    await expect(editor).toHaveLineText(1, '// File: late.ts');
+  });
+
+  test('toHaveEditorCount() counts editors in a page or locator', async ({ page }) => {
+    await expect(page).toHaveEditorCount(6);
+    await expect(page.locator('#pane-1')).toHaveEditorCount(1);
+    await expect(page).not.toHaveEditorCount(7, { timeout: 500 });
+
+    await page.evaluate(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (window as any).openEditor('new.ts', '');
+    });
+    await expect(page).toHaveEditorCount(7);
+  });
+});
@@ -0,0 +1,114 @@
+import { test } from '@playwright/test';
+import { CMEditor, defineExtensions, expect } from '../src/index.js';
+
+test.describe('CMEditor extension lines (3000-line diff)', () => {
+  const extensions = defineExtensions({
+    diff: {
+      lineAddition: 'cm-diff-line-addition',
+      lineDeletion: 'cm-diff-line-deletion',
+      marker: { class: 'cm-diff-marker', scope: 'gutter', gutter: 'cm-diff-gutter' },
+      unused: 'cm-diff-line-moved',
+    },
+  });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/diff.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('linesWithExt() finds decorations outside the viewport', async ({ page }) => {
+    const editor = extensions.from(page);
+    await expect(editor.ext('diff', 'lineAddition')).toHaveCount(3);
+
+    expect(await editor.linesWithExt('diff', 'lineAddition')).toEqual([
+      { first: 3, last: 5 },
+      { first: 1500, last: 1509 },
+      { first: 2995, last: 3000 },
+    ]);
+    expect(await editor.linesWithExt('diff', 'lineDeletion')).toEqual([
+      { first: 800, last: 800 },
+      { first: 2200, last: 2202 },
+    ]);
+    expect(await editor.linesWithExt('diff', 'unused')).toEqual([]);
+  });
+
+  test('linesWithExt() maps gutter markers to lines', async ({ page }) => {
+    const editor = extensions.from(page);
+
+    expect(await editor.linesWithExt('diff', 'marker')).toEqual([
+      { first: 3, last: 5 },
+      { first: 800, last: 800 },
+      { first: 1500, last: 1509 },
+      { first: 2200, last: 2202 },
+      { first: 2995, last: 3000 },
+    ]);
+  });
+
+  test('linesWithExt() restores the scroll position', async ({ page }) => {
+    const editor = extensions.from(page);
+    await editor.scrollToLine(1200);
+    const before = await editor.scrollPosition();
+
+    await editor.linesWithExt('diff', 'lineDeletion');
+
+    expect(await editor.scrollPosition()).toEqual(before);
+  });
+
+  test('linesWithExt() throws when the editor cannot scroll', async ({ page }) => {
+    const editor = extensions.from(page);
+    // An auto-height editor only renders what the page shows and has nothing to scroll
+    await page.addStyleTag({ content: '#editor .cm-editor { height: auto; }' });
+
+    await expect(editor.linesWithExt('diff', 'lineDeletion')).rejects.toThrow(
+      "the scroller can't reach the rest of the document"
+    );
+  });
+
+  test('linesWithExt() times out', async ({ page }) => {
+    const editor = extensions.from(page);
+
+    await expect(editor.linesWithExt('diff', 'lineDeletion', { timeout: 0 })).rejects.toThrow(
+      'timed out after 0ms'
+    );
+  });
+
+  test('toHaveExtOnLines() asserts the exact hunks', async ({ page }) => {
+    const editor = extensions.from(page);
+
+    await expect(editor).toHaveExtOnLines('diff', 'lineDeletion', [
+      { first: 800, last: 800 },
+      { first: 2200, last: 2202 },
+    ]);
+    // Touching or overlapping ranges are compared as lines
+    await expect(editor).toHaveExtOnLines('diff', 'lineAddition', [
+      { first: 3, last: 4 },
+      { first: 5, last: 5 },
+      { first: 1500, last: 1509 },
+      { first: 2995, last: 3000 },
+    ]);
+    await expect(editor).not.toHaveExtOnLines(
+      'diff',
+      'lineAddition',
+      [{ first: 3, last: 5 }],
+      { timeout: 500 }
+    );
+  });
+
+  test('toHaveExtOnLines() reports the received lines', async ({ page }) => {
+    const editor = extensions.from(page);
+
+    await expect(
+      expect(editor).toHaveExtOnLines('diff', 'lineDeletion', [{ first: 800, last: 801 }], {
+        timeout: 500,
+      })
+    ).rejects.toThrow('Received lines: 800, 2200-2202');
+  });
+
+  test('toHaveExtOnLines() throws for unregistered extensions', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(expect(editor).toHaveExtOnLines('diff', 'lineAddition', [])).rejects.toThrow(
+      'Extension "diff" not registered'
+    );
+  });
+});
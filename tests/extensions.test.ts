@@ -1,5 +1,5 @@
 import { test } from '@playwright/test';
-import { CMEditor, expect, ExtensionRegistryManager } from '../src/index.js';
+import { CMEditor, defineExtensions, expect, ExtensionRegistryManager } from '../src/index.js';
 
 test.describe('CMEditor extensions', () => {
   test.beforeEach(async ({ page }) => {
@@ -56,4 +56,142 @@ test.describe('CMEditor extensions', () => {
     // Isolated registry should still work
     expect(() => editor.ext('test', 'key')).not.toThrow();
   });
+
+  test('ext() accepts full selectors and element descriptions', async ({ page }) => {
+    CMEditor.registerExtension('diff', {
+      changedLine: '.cm-line[data-change]',
+      addition: { attrs: { 'data-change': 'addition' }, scope: 'line' },
+      deletion: { class: 'cm-diff-line-deletion', scope: 'line' },
+      gutterRight: { class: 'cm-diff-gutter-right', scope: 'gutter' },
+      wrappedGutter: {
+        class: 'cm-diff-gutter-left',
+        scope: 'gutter',
+        gutter: 'cm-diff-gutter-wrapper',
+      },
+      additionMark: { class: 'cm-diff-line-addition', scope: 'mark' },
+    });
+
+    const editor = CMEditor.from(page, { nth: 1 });
+
+    await expect(editor.ext('diff', 'changedLine')).toHaveCount(6);
+    await expect(editor.ext('diff', 'addition')).toHaveCount(3);
+    await expect(editor.ext('diff', 'deletion')).toHaveCount(3);
+    await expect(editor.ext('diff', 'gutterRight')).toHaveCount(3);
+    await expect(editor.ext('diff', 'wrappedGutter')).toHaveCount(1);
+    // Line decorations are on the lines themselves, not inside them
+    await expect(editor.ext('diff', 'additionMark')).toHaveCount(0);
+  });
+
+  test('getSelector() resolves entries', () => {
+    const registry = new ExtensionRegistryManager();
+    registry.register('lint', {
+      plain: 'cm-lintRange',
+      selector: '.cm-tooltip-lint li',
+      tag: { selector: 'span' },
+      marks: { class: ['cm-lintRange', 'cm-lintRange-error'], scope: 'mark' },
+      widgets: { attrs: { 'data-kind': 'say "hi"', title: true }, scope: 'widget' },
+      gutter: { class: 'cm-lint-marker', scope: 'gutter', gutter: 'cm-gutter-lint' },
+    });
+
+    expect(registry.getSelector('lint', 'plain')).toBe('.cm-lintRange');
+    expect(registry.getSelector('lint', 'selector')).toBe('.cm-tooltip-lint li');
+    expect(registry.getSelector('lint', 'tag')).toBe('span');
+    expect(registry.getSelector('lint', 'marks')).toBe('.cm-line .cm-lintRange.cm-lintRange-error');
+    expect(registry.getSelector('lint', 'widgets')).toBe(
+      '.cm-content [contenteditable="false"][data-kind="say \\"hi\\""][title], ' +
+        '.cm-content [contenteditable="false"] [data-kind="say \\"hi\\""][title]'
+    );
+    expect(registry.getSelector('lint', 'gutter')).toBe(
+      '.cm-gutters .cm-gutter-lint .cm-lint-marker'
+    );
+    expect(registry.getClass('lint', 'plain')).toBe('cm-lintRange');
+    expect(() => registry.getClass('lint', 'tag')).toThrow('is not a single class name');
+    expect(() => registry.getClass('lint', 'marks')).toThrow('is not a single class name');
+  });
+
+  test('getClass() still returns selector strings, with a deprecation warning', () => {
+    const registry = new ExtensionRegistryManager();
+    registry.register('lint', { selector: '.cm-tooltip-lint li' });
+    const warnings: unknown[] = [];
+    const warn = console.warn;
+    console.warn = (message: unknown) => warnings.push(message);
+    try {
+      expect(registry.getClass('lint', 'selector')).toBe('.cm-tooltip-lint li');
+      expect(registry.getClass('lint', 'selector')).toBe('.cm-tooltip-lint li');
+    } finally {
+      console.warn = warn;
+    }
+    expect(warnings).toEqual([
+      `Deprecated: getClass('lint', 'selector') returned the selector ".cm-tooltip-lint li". ` +
+        'Use getSelector() for selector entries.',
+    ]);
+  });
+
+  test('register() validates entries', () => {
+    const registry = new ExtensionRegistryManager();
+
+    expect(() => registry.register('bad', { empty: '' })).toThrow(
+      'Invalid entry "empty" in extension "bad": class name or selector must not be empty'
+    );
+    expect(() => registry.register('bad', { none: { scope: 'line' } })).toThrow(
+      'an object entry needs "class" or "attrs"'
+    );
+    expect(() => registry.register('bad', { mixed: { selector: 'span', scope: 'line' } })).toThrow(
+      '"selector" cannot be combined with other fields'
+    );
+    expect(() => registry.register('bad', { cls: { class: 'a b' } })).toThrow(
+      '"a b" is not a valid class name'
+    );
+    expect(() =>
+      // @ts-expect-error - invalid scope
+      registry.register('bad', { scope: { class: 'x', scope: 'panel' } })
+    ).toThrow('scope must be one of line, gutter, widget, mark, got "panel"');
+    expect(() => registry.register('bad', { gutter: { class: 'x', gutter: 'cm-foo' } })).toThrow(
+      '"gutter" is only allowed with scope: \'gutter\''
+    );
+    expect(registry.has('bad')).toBe(false);
+  });
+});
+
+test.describe('defineExtensions()', () => {
+  const extensions = defineExtensions({
+    diff: {
+      lineAddition: 'cm-diff-line-addition',
+      lineDeletion: 'cm-diff-line-deletion',
+    },
+  });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('from() creates editors with the defined extensions', async ({ page }) => {
+    const editor = extensions.from(page, { nth: 1 });
+
+    await expect(editor.ext('diff', 'lineAddition')).toHaveCount(3);
+    await expect(editor.ext('diff', 'lineDeletion')).toHaveCount(3);
+  });
+
+  test('definitions do not touch the global registry', async ({ page }) => {
+    extensions.from(page);
+    const editor = CMEditor.from(page);
+
+    expect(() => editor.ext('diff', 'lineAddition')).toThrow('Extension "diff" not registered');
+  });
+
+  test('unknown names and keys are type errors', async ({ page }) => {
+    const editor = extensions.from(page);
+
+    // Still checked at runtime for untyped callers
+    // @ts-expect-error - 'lineAdition' is not a key of 'diff'
+    expect(() => editor.ext('diff', 'lineAdition')).toThrow('Key "lineAdition" not found');
+    // @ts-expect-error - 'lint' is not a defined extension
+    expect(() => editor.ext('lint', 'error')).toThrow('Extension "lint" not registered');
+  });
+
+  test('the typed registry can be passed to CMEditor.from()', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1, registry: extensions.registry });
+    await expect(editor.ext('diff', 'lineAddition')).toHaveCount(3);
+  });
 });
@@ -0,0 +1,96 @@
+import { CMEditor, defineExtensions, expect, test } from '../src/index.js';
+
+test.describe('editor fixture', () => {
+  test.use({
+    cmEditor: {
+      nth: 1,
+      extensions: {
+        diff: {
+          lineAddition: 'cm-diff-line-addition',
+          lineDeletion: 'cm-diff-line-deletion',
+        },
+      },
+    },
+  });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+  });
+
+  test('provides the configured editor with its extensions', async ({ editor }) => {
+    await expect(editor.ext('diff', 'lineAddition')).toHaveCount(3);
+    await expect(editor).toHaveLineText(1, 'Line 1: Hello');
+  });
+
+  test('registers extensions on a fresh registry for each test', async ({ editor }) => {
+    expect(editor.getRegistry().getRegisteredNames()).toEqual(['diff']);
+    editor.getRegistry().register('lint', { error: 'cm-lintRange-error' });
+  });
+
+  test('does not keep registrations from other tests', async ({ editor }) => {
+    expect(editor.getRegistry().has('lint')).toBe(false);
+  });
+
+  test('does not touch the global registry', async ({ page, editor }) => {
+    expect(editor.getRegistry().has('diff')).toBe(true);
+    expect(() => CMEditor.from(page).ext('diff', 'lineAddition')).toThrow(
+      'Extension "diff" not registered'
+    );
+  });
+});
+
+test.describe('editor fixture with a selector', () => {
+  test.use({ cmEditor: { selector: '#editor-2' } });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+  });
+
+  test('finds the editor inside the selected element', async ({ editor }) => {
+    await expect(editor).toHaveLineText(5, 'Line 5: Added');
+  });
+});
+
+test.describe('editor fixture readiness', () => {
+  test.use({ cmEditor: { selector: '#editor-2' } });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+    // Detach the editor and attach it again later, like an app that mounts it late
+    await page.evaluate(() => {
+      const container = document.querySelector('#editor-2')!;
+      const editorEl = container.querySelector('.cm-editor')!;
+      editorEl.remove();
+      setTimeout(() => container.appendChild(editorEl), 300);
+    });
+  });
+
+  test('waits for the editor before the test body runs', async ({ editor }) => {
+    expect(await editor.view.isVisible()).toBe(true);
+  });
+});
+
+const extensions = defineExtensions({
+  diff: {
+    lineAddition: 'cm-diff-line-addition',
+    lineDeletion: 'cm-diff-line-deletion',
+  },
+});
+
+extensions.test.describe('typed editor fixture', () => {
+  extensions.test.use({ cmEditor: { nth: 1 } });
+
+  extensions.test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+  });
+
+  extensions.test('registers the definitions on a fresh registry', async ({ editor }) => {
+    await expect(editor.ext('diff', 'lineDeletion')).toHaveCount(3);
+    expect(editor.getRegistry()).not.toBe(extensions.registry);
+  });
+
+  extensions.test('unknown names and keys are type errors', async ({ editor }) => {
+    // @ts-expect-error - 'lineAdition' is not a key of 'diff'
+    expect(() => editor.ext('diff', 'lineAdition')).toThrow('Key "lineAdition" not found');
+  });
+});
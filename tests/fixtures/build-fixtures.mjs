@@ -18,8 +18,19 @@ mkdirSync(distDir, { recursive: true });
 const result = await build({
   stdin: {
     contents: `
-import { EditorState } from '@codemirror/state';
+import { EditorState, Transaction } from '@codemirror/state';
 import { EditorView, lineNumbers, Decoration, ViewPlugin } from '@codemirror/view';
+import { foldedRanges } from '@codemirror/language';
+
+// Record document changes so tests can check transaction annotations
+window.editLog = [];
+const editLogger = EditorView.updateListener.of((update) => {
+  for (const tr of update.transactions) {
+    if (tr.docChanged) {
+      window.editLog.push({ userEvent: tr.annotation(Transaction.userEvent) ?? null });
+    }
+  }
+});
 
 // Generate sample code with many lines for scroll testing
 const sampleCode = Array.from({ length: 100 }, (_, i) => {
@@ -36,6 +47,8 @@ const editor1 = new EditorView({
     doc: sampleCode,
     extensions: [
       lineNumbers(),
+      editLogger,
+      EditorState.allowMultipleSelections.of(true),
       EditorView.theme({
         '&': { fontSize: '14px' },
         '.cm-scroller': { overflow: 'auto' }
@@ -64,11 +77,17 @@ const diffDecorations = ViewPlugin.fromClass(class {
       // Mark lines 5-7 as additions, lines 10-12 as deletions
       if (lineNum >= 5 && lineNum <= 7) {
         decorations.push(
-          Decoration.line({ class: 'cm-diff-line-addition' }).range(line.from)
+          Decoration.line({
+            class: 'cm-diff-line-addition',
+            attributes: { 'data-change': 'addition' },
+          }).range(line.from)
         );
       } else if (lineNum >= 10 && lineNum <= 12) {
         decorations.push(
-          Decoration.line({ class: 'cm-diff-line-deletion' }).range(line.from)
+          Decoration.line({
+            class: 'cm-diff-line-deletion',
+            attributes: { 'data-change': 'deletion' },
+          }).range(line.from)
         );
       }
       i = line.to + 1;
@@ -114,6 +133,8 @@ window.editors = { editor1, editor2 };
 // Store view reference on DOM elements for testing
 editor1.dom.cmView = editor1;
 editor2.dom.cmView = editor2;
+editor1.dom.cmFoldedRanges = foldedRanges;
+editor2.dom.cmFoldedRanges = foldedRanges;
 `,
     resolveDir: __dirname,
     loader: 'js',
@@ -195,7 +216,8 @@ const largeEditorResult = await build({
   stdin: {
     contents: `
 import { EditorState } from '@codemirror/state';
-import { EditorView, lineNumbers } from '@codemirror/view';
+import { EditorView, lineNumbers, keymap, hoverTooltip } from '@codemirror/view';
+import { search, searchKeymap } from '@codemirror/search';
 
 // Generate 1000 lines for virtual rendering testing
 const largeCode = Array.from({ length: 1000 }, (_, i) => {
@@ -204,11 +226,45 @@ const largeCode = Array.from({ length: 1000 }, (_, i) => {
   return \`// Line \${i + 1}: This is line number \${i + 1} with some content\`;
 }).join('\\n');
 
+// Hover tooltip describing the word under the mouse
+const wordHover = hoverTooltip((view, pos) => {
+  const line = view.state.doc.lineAt(pos);
+  let start = pos - line.from;
+  let end = start;
+  while (start > 0 && /\\w/.test(line.text[start - 1])) start--;
+  while (end < line.length && /\\w/.test(line.text[end])) end++;
+  if (start === end) return null;
+  const word = line.text.slice(start, end);
+  return {
+    pos: line.from + start,
+    end: line.from + end,
+    create() {
+      const dom = document.createElement('div');
+      dom.className = 'cm-word-hover';
+      dom.textContent = \`Word "\${word}" on line \${line.number}\`;
+      return { dom };
+    },
+  };
+});
+
 const editor = new EditorView({
   state: EditorState.create({
     doc: largeCode,
     extensions: [
-      lineNumbers(),
+      // Clicking a line number selects the whole line
+      lineNumbers({
+        domEventHandlers: {
+          mousedown(view, line) {
+            const to = Math.min(line.to + 1, view.state.doc.length);
+            view.dispatch({ selection: { anchor: line.from, head: to } });
+            view.focus();
+            return true;
+          },
+        },
+      }),
+      search(),
+      keymap.of(searchKeymap),
+      wordHover,
       EditorView.theme({
         '&': { fontSize: '14px' },
         '.cm-scroller': { overflow: 'auto' }
@@ -266,3 +322,1019 @@ ${largeEditorJS}
 
 writeFileSync(join(distDir, 'large-editor.html'), largeEditorHtml);
 console.log('Built: tests/fixtures/dist/large-editor.html');
+
+// Build folding.html for code folding tests
+const foldingEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers, keymap } from '@codemirror/view';
+import { codeFolding, foldGutter, foldKeymap, foldService, foldedRanges } from '@codemirror/language';
+
+// 20 sections of 15 lines: a header followed by 14 indented items
+const foldingCode = Array.from({ length: 20 }, (_, s) => [
+  \`section \${s + 1}:\`,
+  ...Array.from({ length: 14 }, (_, i) => \`  item \${s + 1}.\${i + 1}\`),
+].join('\\n')).join('\\n');
+
+// Custom fold service: fold a line together with the more-indented lines below it
+const indentOf = (text) => text.length - text.trimStart().length;
+const indentFold = foldService.of((state, from, to) => {
+  const line = state.doc.lineAt(from);
+  const indent = indentOf(line.text);
+  let last = line;
+  while (last.number < state.doc.lines) {
+    const next = state.doc.line(last.number + 1);
+    if (next.text.trim() !== '' && indentOf(next.text) <= indent) break;
+    last = next;
+  }
+  return last.number > line.number ? { from: line.to, to: last.to } : null;
+});
+
+const editor = new EditorView({
+  state: EditorState.create({
+    doc: foldingCode,
+    extensions: [
+      lineNumbers(),
+      codeFolding(),
+      foldGutter(),
+      indentFold,
+      keymap.of(foldKeymap),
+      EditorView.theme({
+        '&': { fontSize: '14px' },
+        '.cm-scroller': { overflow: 'auto' }
+      })
+    ]
+  }),
+  parent: document.getElementById('editor')
+});
+
+// Expose editor for test inspection
+window.editor = editor;
+
+// Store view reference on DOM element for testing
+editor.dom.cmView = editor;
+editor.dom.cmFoldedRanges = foldedRanges;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const foldingEditorJS = foldingEditorResult.outputFiles[0].text;
+
+const foldingEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Folding CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+    }
+    #editor .cm-editor {
+      height: 400px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Code Folding Test (300 Lines)</h1>
+  <div id="editor" class="editor-container"></div>
+  <script>
+${foldingEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'folding.html'), foldingEditorHtml);
+console.log('Built: tests/fixtures/dist/folding.html');
+
+// Build lint.html for lint diagnostics tests
+const lintEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers } from '@codemirror/view';
+import { linter, lintGutter } from '@codemirror/lint';
+
+// 500 lines with a few known problems, including some far outside the initial viewport
+const lintCode = Array.from({ length: 500 }, (_, i) => {
+  const n = i + 1;
+  if (n === 3 || n === 480) return \`var legacy\${n} = \${n};\`;
+  if (n === 10 || n === 450) return \`// TODO: clean up line \${n}\`;
+  return \`const value\${n} = \${n};\`;
+}).join('\\n');
+
+// Deterministic linter: 'var' declarations are errors, TODO comments are warnings
+const deterministicLinter = linter((view) => {
+  const diagnostics = [];
+  for (let n = 1; n <= view.state.doc.lines; n++) {
+    const line = view.state.doc.line(n);
+    const varIndex = line.text.indexOf('var ');
+    if (varIndex >= 0) {
+      diagnostics.push({
+        from: line.from + varIndex,
+        to: line.from + varIndex + 3,
+        severity: 'error',
+        message: 'Unexpected var, use const or let instead',
+        source: 'fixture-linter',
+      });
+    }
+    const todoIndex = line.text.indexOf('TODO');
+    if (todoIndex >= 0) {
+      diagnostics.push({
+        from: line.from + todoIndex,
+        to: line.to,
+        severity: 'warning',
+        message: 'Unresolved TODO comment',
+        source: 'fixture-linter',
+      });
+    }
+  }
+  return diagnostics;
+}, { delay: 300 });
+
+const editor = new EditorView({
+  state: EditorState.create({
+    doc: lintCode,
+    extensions: [
+      lineNumbers(),
+      lintGutter(),
+      deterministicLinter,
+      EditorView.theme({
+        '&': { fontSize: '14px' },
+        '.cm-scroller': { overflow: 'auto' }
+      })
+    ]
+  }),
+  parent: document.getElementById('editor')
+});
+
+// Async linter that answers long after its delay, like a language server would
+const slowLinter = linter(
+  (view) =>
+    new Promise((resolve) => {
+      const text = view.state.doc.toString();
+      setTimeout(() => {
+        const index = text.indexOf('var ');
+        resolve(index < 0 ? [] : [{
+          from: index,
+          to: index + 3,
+          severity: 'error',
+          message: 'Unexpected var, use const or let instead',
+          source: 'slow-linter',
+        }]);
+      }, 600);
+    }),
+  { delay: 100 }
+);
+
+const slowEditor = new EditorView({
+  state: EditorState.create({
+    doc: 'const a = 1;\\nvar b = 2;\\nconst c = 3;',
+    extensions: [lineNumbers(), slowLinter]
+  }),
+  parent: document.getElementById('slow-editor')
+});
+
+// Expose editors for test inspection
+window.editor = editor;
+window.slowEditor = slowEditor;
+
+// Store view references on DOM elements for testing
+editor.dom.cmView = editor;
+slowEditor.dom.cmView = slowEditor;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const lintEditorJS = lintEditorResult.outputFiles[0].text;
+
+const lintEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Lint CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+    }
+    #editor .cm-editor {
+      height: 400px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Lint Test (500 Lines)</h1>
+  <div id="editor" class="editor-container"></div>
+  <div id="slow-editor" class="editor-container"></div>
+  <script>
+${lintEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'lint.html'), lintEditorHtml);
+console.log('Built: tests/fixtures/dist/lint.html');
+
+// Build completion.html for autocompletion tests
+const completionEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers } from '@codemirror/view';
+import { autocompletion } from '@codemirror/autocomplete';
+
+const completionCode = [
+  'const value = 1;',
+  'con',
+  'fet',
+  'zzz',
+].join('\\n');
+
+// Synchronous source with keyword and variable options
+const keywordSource = (context) => {
+  const word = context.matchBefore(/\\w*/);
+  if (!word || (word.from === word.to && !context.explicit)) return null;
+  return {
+    from: word.from,
+    options: [
+      { label: 'console', type: 'variable', detail: 'global' },
+      { label: 'const', type: 'keyword' },
+      { label: 'continue', type: 'keyword' },
+      { label: 'value', type: 'variable', detail: 'number' },
+    ],
+  };
+};
+
+// Asynchronous source that answers after a delay, like a language server
+const asyncSource = (context) => {
+  const word = context.matchBefore(/\\w*/);
+  if (!word || (word.from === word.to && !context.explicit)) return null;
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      resolve({
+        from: word.from,
+        options: [
+          { label: 'fetchData', type: 'function', detail: '(url)' },
+          { label: 'fetchUser', type: 'function', detail: '(id)' },
+        ],
+      });
+    }, 300);
+  });
+};
+
+const editor = new EditorView({
+  state: EditorState.create({
+    doc: completionCode,
+    extensions: [
+      lineNumbers(),
+      autocompletion({ override: [keywordSource, asyncSource] }),
+      EditorView.theme({
+        '&': { fontSize: '14px' },
+        '.cm-scroller': { overflow: 'auto' }
+      })
+    ]
+  }),
+  parent: document.getElementById('editor')
+});
+
+// Expose editor for test inspection
+window.editor = editor;
+
+// Store view reference on DOM element for testing
+editor.dom.cmView = editor;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const completionEditorJS = completionEditorResult.outputFiles[0].text;
+
+const completionEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Completion CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+    }
+    #editor .cm-editor {
+      height: 300px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Completion Test</h1>
+  <div id="editor" class="editor-container"></div>
+  <script>
+${completionEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'completion.html'), completionEditorHtml);
+console.log('Built: tests/fixtures/dist/completion.html');
+
+// Build line-numbers.html for line resolution without the default line-number gutter
+const lineNumbersEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers } from '@codemirror/view';
+
+const makeCode = (label) => Array.from({ length: 300 }, (_, i) =>
+  \`// \${label} line \${i + 1}\`
+).join('\\n');
+
+const theme = EditorView.theme({
+  '&': { fontSize: '14px' },
+  '.cm-scroller': { overflow: 'auto' }
+});
+
+// First editor hides line numbers entirely
+const plainEditor = new EditorView({
+  state: EditorState.create({
+    doc: makeCode('Plain'),
+    extensions: [theme]
+  }),
+  parent: document.getElementById('editor-plain')
+});
+
+// Second editor shows numbers offset by 1000, so gutter text doesn't match lines
+const offsetEditor = new EditorView({
+  state: EditorState.create({
+    doc: makeCode('Offset'),
+    extensions: [
+      lineNumbers({ formatNumber: (n) => String(n + 1000) }),
+      theme
+    ]
+  }),
+  parent: document.getElementById('editor-offset')
+});
+
+// Expose editors for test inspection
+window.editors = { plainEditor, offsetEditor };
+
+// Store view reference on DOM elements for testing
+plainEditor.dom.cmView = plainEditor;
+offsetEditor.dom.cmView = offsetEditor;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const lineNumbersEditorJS = lineNumbersEditorResult.outputFiles[0].text;
+
+const lineNumbersEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Line Numbers CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+      margin-bottom: 20px;
+    }
+    .editor-container .cm-editor {
+      height: 200px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Line Numbers Test (300 Lines)</h1>
+  <div id="editor-plain" class="editor-container"></div>
+  <div id="editor-offset" class="editor-container"></div>
+  <script>
+${lineNumbersEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'line-numbers.html'), lineNumbersEditorHtml);
+console.log('Built: tests/fixtures/dist/line-numbers.html');
+
+// Build syntax.html for syntax tree and highlighting tests
+const syntaxEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers } from '@codemirror/view';
+import { syntaxHighlighting } from '@codemirror/language';
+import { javascript } from '@codemirror/lang-javascript';
+import { classHighlighter } from '@lezer/highlight';
+
+// JavaScript with a few known constructs at the top and bottom, and filler in between
+const syntaxCode = [
+  'const greeting = "hello";',
+  '// a comment',
+  'function greet(name) {',
+  '  return greeting + name;',
+  '}',
+  ...Array.from({ length: 294 }, (_, i) => \`let value\${i + 6} = \${i + 6};\`),
+  'console.log("end");',
+].join('\\n');
+
+const editor = new EditorView({
+  state: EditorState.create({
+    doc: syntaxCode,
+    extensions: [
+      lineNumbers(),
+      javascript(),
+      syntaxHighlighting(classHighlighter),
+      EditorView.theme({
+        '&': { fontSize: '14px' },
+        '.cm-scroller': { overflow: 'auto' }
+      })
+    ]
+  }),
+  parent: document.getElementById('editor')
+});
+
+// Expose editor for test inspection
+window.editor = editor;
+
+// Store view reference on DOM element for testing
+editor.dom.cmView = editor;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const syntaxEditorJS = syntaxEditorResult.outputFiles[0].text;
+
+const syntaxEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Syntax CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+    }
+    #editor .cm-editor {
+      height: 300px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Syntax Test (300 Lines)</h1>
+  <div id="editor" class="editor-container"></div>
+  <script>
+${syntaxEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'syntax.html'), syntaxEditorHtml);
+console.log('Built: tests/fixtures/dist/syntax.html');
+
+// Build diff.html for whole-document extension queries
+const diffEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState, RangeSetBuilder } from '@codemirror/state';
+import {
+  EditorView,
+  lineNumbers,
+  Decoration,
+  ViewPlugin,
+  gutter,
+  GutterMarker,
+} from '@codemirror/view';
+
+// Hunks of a 3000-line diff: [first, last, kind]
+const hunks = [
+  [3, 5, 'addition'],
+  [800, 800, 'deletion'],
+  [1500, 1509, 'addition'],
+  [2200, 2202, 'deletion'],
+  [2995, 3000, 'addition'],
+];
+const changeAt = (lineNum) => {
+  const hunk = hunks.find(([first, last]) => lineNum >= first && lineNum <= last);
+  return hunk ? hunk[2] : null;
+};
+
+const diffCode = Array.from({ length: 3000 }, (_, i) => \`// Diff line \${i + 1}\`).join('\\n');
+
+// Decorations are only built for the viewport, like most real diff plugins
+const diffDecorations = ViewPlugin.fromClass(class {
+  decorations;
+  constructor(view) {
+    this.decorations = this.buildDecorations(view);
+  }
+  update(update) {
+    if (update.docChanged || update.viewportChanged) {
+      this.decorations = this.buildDecorations(update.view);
+    }
+  }
+  buildDecorations(view) {
+    const builder = new RangeSetBuilder();
+    for (let i = view.viewport.from; i <= view.viewport.to;) {
+      const line = view.state.doc.lineAt(i);
+      const change = changeAt(line.number);
+      if (change) {
+        builder.add(line.from, line.from, Decoration.line({ class: \`cm-diff-line-\${change}\` }));
+      }
+      i = line.to + 1;
+    }
+    return builder.finish();
+  }
+}, {
+  decorations: v => v.decorations
+});
+
+class ChangeMarker extends GutterMarker {
+  constructor(change) {
+    super();
+    this.change = change;
+  }
+  eq(other) {
+    return other.change === this.change;
+  }
+  toDOM() {
+    const marker = document.createElement('span');
+    marker.className = \`cm-diff-marker cm-diff-marker-\${this.change}\`;
+    marker.textContent = this.change === 'addition' ? '+' : '-';
+    return marker;
+  }
+}
+
+const diffGutter = gutter({
+  class: 'cm-diff-gutter',
+  lineMarker(view, line) {
+    const change = changeAt(view.state.doc.lineAt(line.from).number);
+    return change ? new ChangeMarker(change) : null;
+  },
+});
+
+const editor = new EditorView({
+  state: EditorState.create({
+    doc: diffCode,
+    extensions: [
+      lineNumbers(),
+      diffGutter,
+      diffDecorations,
+      EditorView.theme({
+        '&': { fontSize: '14px' },
+        '.cm-scroller': { overflow: 'auto' }
+      })
+    ]
+  }),
+  parent: document.getElementById('editor')
+});
+
+// Expose editor for test inspection
+window.editor = editor;
+
+// Store view reference on DOM element for testing
+editor.dom.cmView = editor;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const diffEditorJS = diffEditorResult.outputFiles[0].text;
+
+const diffEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Diff CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+    }
+    #editor .cm-editor {
+      height: 300px;
+    }
+    .cm-diff-line-addition { background: #e6ffed; }
+    .cm-diff-line-deletion { background: #ffeef0; }
+  </style>
+</head>
+<body>
+  <h1>Diff Test (3000 Lines)</h1>
+  <div id="editor" class="editor-container"></div>
+  <script>
+${diffEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'diff.html'), diffEditorHtml);
+console.log('Built: tests/fixtures/dist/diff.html');
+
+// Build multi-editor.html for editor discovery tests
+const multiEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers } from '@codemirror/view';
+
+const createEditor = (hostId, label, doc) => {
+  const editor = new EditorView({
+    state: EditorState.create({
+      doc,
+      extensions: [
+        lineNumbers(),
+        EditorView.contentAttributes.of({ 'aria-label': label }),
+        EditorView.theme({
+          '&': { fontSize: '14px' },
+          '.cm-scroller': { overflow: 'auto' }
+        })
+      ]
+    }),
+    parent: document.getElementById(hostId)
+  });
+  // Store view reference on DOM element for testing
+  editor.dom.cmView = editor;
+  return editor;
+};
+
+// Six editors in split panes; the 900-line one has its function far outside the viewport
+const editors = [
+  createEditor('pane-1', 'index.ts', '// File: index.ts\\nexport * from "./app";'),
+  createEditor('pane-2', 'app.ts', '// File: app.ts\\nexport function app() {}'),
+  createEditor('pane-3', 'utils.ts', '// File: utils.ts\\nexport const sum = (a, b) => a + b;'),
+  createEditor(
+    'pane-4',
+    'large.ts',
+    [
+      '// File: large.ts',
+      ...Array.from({ length: 898 }, (_, i) => \`const value\${i + 2} = \${i + 2};\`),
+      'export function deepInside() {}',
+    ].join('\\n')
+  ),
+  createEditor('pane-5', 'styles.css', '/* File: styles.css */\\nbody { margin: 0; }'),
+  createEditor('pane-6', 'notes.md', '# File: notes.md\\nSome notes'),
+];
+
+// Add an editor later, like opening a new tab
+window.openEditor = (label, doc) => {
+  const pane = document.createElement('div');
+  pane.id = \`pane-\${editors.length + 1}\`;
+  pane.className = 'pane';
+  document.getElementById('panes').appendChild(pane);
+  editors.push(createEditor(pane.id, label, doc));
+};
+
+// Expose editors for test inspection
+window.editors = editors;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const multiEditorJS = multiEditorResult.outputFiles[0].text;
+
+const multiEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Multi-Editor CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    #panes {
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 8px;
+    }
+    .pane {
+      border: 1px solid #ccc;
+    }
+    .pane .cm-editor {
+      height: 150px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Multi-Editor Test (Split Panes)</h1>
+  <div id="panes">
+    <div id="pane-1" class="pane"></div>
+    <div id="pane-2" class="pane"></div>
+    <div id="pane-3" class="pane"></div>
+    <div id="pane-4" class="pane"></div>
+    <div id="pane-5" class="pane"></div>
+    <div id="pane-6" class="pane"></div>
+  </div>
+  <script>
+${multiEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'multi-editor.html'), multiEditorHtml);
+console.log('Built: tests/fixtures/dist/multi-editor.html');
+
+// Build merge.html for @codemirror/merge tests
+const mergeEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorView, lineNumbers } from '@codemirror/view';
+import { MergeView } from '@codemirror/merge';
+
+// Original: 120 lines. Changed: line 10 edited, two lines added after 40,
+// line 80 removed and line 118 edited.
+const original = Array.from({ length: 120 }, (_, i) => \`Line \${i + 1}: original\`);
+const changed = original.flatMap((text, i) => {
+  const lineNum = i + 1;
+  if (lineNum === 10) return ['Line 10: edited'];
+  if (lineNum === 40) return [text, 'Inserted A', 'Inserted B'];
+  if (lineNum === 80) return [];
+  if (lineNum === 118) return ['Line 118: edited'];
+  return [text];
+});
+
+const shared = [
+  lineNumbers(),
+  EditorView.theme({ '&': { fontSize: '14px' } }),
+];
+
+const mergeView = new MergeView({
+  a: { doc: original.join('\\n'), extensions: shared },
+  b: { doc: changed.join('\\n'), extensions: shared },
+  parent: document.getElementById('merge'),
+  revertControls: 'a-to-b',
+  collapseUnchanged: { margin: 3, minSize: 4 },
+});
+
+// Expose merge view for test inspection
+window.mergeView = mergeView;
+
+// Store view references on DOM elements for testing
+mergeView.a.dom.cmView = mergeView.a;
+mergeView.b.dom.cmView = mergeView.b;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const mergeEditorJS = mergeEditorResult.outputFiles[0].text;
+
+const mergeEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Merge View CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    #merge .cm-mergeView {
+      height: 300px;
+      overflow: auto;
+      border: 1px solid #ccc;
+    }
+  </style>
+</head>
+<body>
+  <h1>Merge View Test (120 Lines)</h1>
+  <div id="merge"></div>
+  <script>
+${mergeEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'merge.html'), mergeEditorHtml);
+console.log('Built: tests/fixtures/dist/merge.html');
+
+// Build long-lines.html for horizontal scrolling tests
+const longLinesEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers } from '@codemirror/view';
+
+// 300 lines of ~1000 characters, with a minified one-line bundle on line 150
+const minified = Array.from({ length: 1000 }, (_, i) => \`var v\${i}=\${i};\`).join('');
+const longLinesCode = Array.from({ length: 300 }, (_, i) => {
+  if (i === 149) return minified;
+  return \`// Line \${i + 1}: \` + Array.from({ length: 100 }, (_, j) => \`col\${j * 10}\`).join(' ');
+}).join('\\n');
+
+const editor = new EditorView({
+  state: EditorState.create({
+    doc: longLinesCode,
+    extensions: [
+      lineNumbers(),
+      EditorView.theme({
+        '&': { fontSize: '14px' },
+        '.cm-scroller': { overflow: 'auto', fontFamily: 'monospace' }
+      })
+    ]
+  }),
+  parent: document.getElementById('editor')
+});
+
+// Expose editor for test inspection
+window.editor = editor;
+
+// Store view reference on DOM element for testing
+editor.dom.cmView = editor;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const longLinesEditorJS = longLinesEditorResult.outputFiles[0].text;
+
+const longLinesEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Long Lines CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+      width: 600px;
+    }
+    #editor .cm-editor {
+      height: 300px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Long Lines Test (300 Lines, No Wrapping)</h1>
+  <div id="editor" class="editor-container"></div>
+  <script>
+${longLinesEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'long-lines.html'), longLinesEditorHtml);
+console.log('Built: tests/fixtures/dist/long-lines.html');
+
+// Build rectangular.html for rectangular (Alt-drag) selection tests
+const rectangularEditorResult = await build({
+  stdin: {
+    contents: `
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers, rectangularSelection } from '@codemirror/view';
+
+const rectangularCode = Array.from({ length: 20 }, (_, i) =>
+  \`// Line \${i + 1}: rectangular selection\`
+).join('\\n');
+
+const editor = new EditorView({
+  state: EditorState.create({
+    doc: rectangularCode,
+    extensions: [
+      lineNumbers(),
+      EditorState.allowMultipleSelections.of(true),
+      rectangularSelection(),
+      EditorView.theme({
+        '&': { fontSize: '14px' },
+        '.cm-scroller': { overflow: 'auto' }
+      })
+    ]
+  }),
+  parent: document.getElementById('editor')
+});
+
+// Expose editor for test inspection
+window.editor = editor;
+
+// Store view reference on DOM element for testing
+editor.dom.cmView = editor;
+`,
+    resolveDir: __dirname,
+    loader: 'js',
+  },
+  bundle: true,
+  format: 'iife',
+  write: false,
+  minify: false,
+});
+
+const rectangularEditorJS = rectangularEditorResult.outputFiles[0].text;
+
+const rectangularEditorHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Rectangular Selection CodeMirror Test Fixture</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 20px;
+      font-family: system-ui, sans-serif;
+    }
+    .editor-container {
+      border: 1px solid #ccc;
+    }
+    #editor .cm-editor {
+      height: 300px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Rectangular Selection Test</h1>
+  <div id="editor" class="editor-container"></div>
+  <script>
+${rectangularEditorJS}
+  </script>
+</body>
+</html>`;
+
+writeFileSync(join(distDir, 'rectangular.html'), rectangularEditorHtml);
+console.log('Built: tests/fixtures/dist/rectangular.html');
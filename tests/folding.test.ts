@@ -0,0 +1,92 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor folding', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/folding.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('foldedRanges() is empty initially', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    expect(await editor.foldedRanges()).toEqual([]);
+    await expect(editor).toHaveFoldCount(0);
+  });
+
+  test('foldLines() folds the range from the fold service', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const fold = await editor.foldLines(1, 15);
+
+    expect(fold).toMatchObject({ first: 1, last: 15 });
+    await expect(editor).toHaveFoldedRange({ first: 1, last: 15 });
+    await expect(editor.view.locator('.cm-foldPlaceholder')).toHaveCount(1);
+  });
+
+  test('foldLines() restores the selection', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setSelection({ anchor: { line: 100, col: 2 } });
+
+    await editor.foldLines(1, 15);
+    await expect(editor).toHaveCursorAt({ line: 100, col: 2 });
+    await expect(editor).toHaveFoldedRange({ first: 1, last: 15 });
+  });
+
+  test('foldLines() restores the selection when the line cannot be folded', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setSelection({ anchor: { line: 100, col: 2 } });
+
+    await expect(editor.foldLines(2, 3)).rejects.toThrow('Line 2 could not be folded');
+    await expect(editor).toHaveCursorAt({ line: 100, col: 2 });
+  });
+
+  test('foldLines() throws when the fold ends elsewhere', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await expect(editor.foldLines(16, 20)).rejects.toThrow('Line 16 folds to line 30, not 20');
+  });
+
+  test('linesInViewport() reports a gap around a folded region', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.foldLines(1, 15);
+
+    const info = await editor.linesInViewport();
+    expect(info.partiallyVisible.length).toBe(2);
+    expect(info.partiallyVisible[0]).toEqual({ first: 1, last: 1 });
+    expect(info.partiallyVisible[1].first).toBe(16);
+  });
+
+  test('clickFoldGutter() toggles a fold', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.clickFoldGutter(31);
+    await expect(editor).toHaveFoldedRange({ first: 31, last: 45 });
+
+    await editor.clickFoldGutter(31);
+    await expect(editor).toHaveFoldCount(0);
+  });
+
+  test('foldedRanges() includes folds outside the viewport', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.clickFoldGutter(286);
+    await editor.scrollTo({ scrollTop: 0 });
+
+    expect(await editor.isLineRendered(286)).toBe(false);
+    await expect(editor).toHaveFoldedRange({ first: 286, last: 300 });
+  });
+
+  test('unfoldAll() removes every fold', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.foldLines(1, 15);
+    await editor.foldLines(16, 30);
+    await expect(editor).toHaveFoldCount(2);
+
+    await editor.unfoldAll();
+    await expect(editor).toHaveFoldCount(0);
+  });
+});
+
+test('foldedRanges() throws when the page does not expose foldedRanges', async ({ page }) => {
+  await page.goto('/large-editor.html');
+  await page.waitForSelector('.cm-editor');
+  const editor = CMEditor.from(page);
+
+  await expect(editor.foldedRanges()).rejects.toThrow('foldedRanges not found on .cm-editor');
+});
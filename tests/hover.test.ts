@@ -0,0 +1,61 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor hover tooltips (large file)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/large-editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('hoverAt() scrolls to the position and returns the tooltip', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    expect(await editor.isLineRendered(500)).toBe(false);
+
+    // Line 500: "// Line 500: This is line number 500 with some content"
+    const tooltip = await editor.hoverAt({ line: 500, col: 49 });
+
+    await expect(tooltip).toHaveText('Word "content" on line 500');
+    expect(await editor.isLineVisible(500)).toBe(true);
+  });
+
+  test('toHaveOpenTooltip() matches tooltip text', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.hoverAt({ line: 20, col: 13 });
+
+    await expect(editor).toHaveOpenTooltip();
+    await expect(editor).toHaveOpenTooltip({ containing: 'Word "This"' });
+    await expect(editor).toHaveOpenTooltip({ containing: /on line 20$/ });
+    await expect(editor).not.toHaveOpenTooltip({ containing: 'line 21', timeout: 500 });
+  });
+
+  test('tooltips() lists the open tooltips', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    expect(await editor.tooltips()).toEqual([]);
+
+    await editor.hoverAt({ line: 3, col: 3 });
+    const tooltips = await editor.tooltips();
+    expect(tooltips).toHaveLength(1);
+    expect(tooltips[0]).toMatchObject({ text: 'Word "Line" on line 3', hover: true });
+    expect(tooltips[0].classes).toContain('cm-tooltip-hover');
+  });
+
+  test('hoverAt() replaces the tooltip when hovering another word', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.hoverAt({ line: 10, col: 13 });
+    await expect(editor).toHaveOpenTooltip({ containing: 'Word "This" on line 10' });
+
+    await editor.hoverAt({ line: 10, col: 28 });
+    await expect(editor).toHaveOpenTooltip({ containing: 'Word "number" on line 10' });
+    await expect(editor).not.toHaveOpenTooltip({ containing: '"This"', timeout: 500 });
+  });
+
+  test('hoverAt() validates the position', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await expect(editor.hoverAt({ line: 2000, col: 0 })).rejects.toThrow(
+      'Line 2000 is out of range (document has 1000 lines)'
+    );
+    await expect(editor.hoverAt({ line: 1, col: 500 })).rejects.toThrow(
+      /Column 500 is out of range/
+    );
+  });
+});
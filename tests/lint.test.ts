@@ -0,0 +1,96 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor lint diagnostics', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/lint.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('waitForLintIdle() waits for the first lint run', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.waitForLintIdle();
+    expect(await editor.lintDiagnostics()).toHaveLength(4);
+  });
+
+  test('lintDiagnostics() maps diagnostics to line and column', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.waitForLintIdle();
+
+    const [first] = await editor.lintDiagnostics();
+    expect(first).toMatchObject({
+      line: 3,
+      col: 0,
+      endLine: 3,
+      endCol: 3,
+      severity: 'error',
+      message: 'Unexpected var, use const or let instead',
+      source: 'fixture-linter',
+    });
+  });
+
+  test('waitForLintIdle() waits for a slow async lint source', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await editor.waitForLintIdle();
+    expect(await editor.lintDiagnostics()).toMatchObject([{ line: 2, source: 'slow-linter' }]);
+
+    await editor.insertAt({ line: 1, col: 0 }, 'var added = 0;\n');
+    await editor.waitForLintIdle({ force: true });
+    expect(await editor.lintDiagnostics()).toMatchObject([{ line: 1, source: 'slow-linter' }]);
+  });
+
+  test('lintDiagnostics() includes diagnostics outside the viewport', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.waitForLintIdle();
+
+    expect(await editor.isLineRendered(480)).toBe(false);
+    await expect(editor).toHaveLintDiagnostic({ line: 480, severity: 'error' });
+    await expect(editor).toHaveLintDiagnostic({ line: 450, message: /TODO/ });
+  });
+
+  test('waitForLintIdle({ force: true }) picks up new problems after an edit', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.waitForLintIdle();
+
+    await editor.insertAt({ line: 1, col: 0 }, 'var added = 0;\n');
+    await editor.waitForLintIdle({ force: true });
+
+    await expect(editor).toHaveLintDiagnosticCount(5);
+    await expect(editor).toHaveLintDiagnostic({ line: 1, severity: 'error' });
+    // Existing diagnostics moved down with the edit
+    await expect(editor).toHaveLintDiagnostic({ line: 481, severity: 'error' });
+  });
+
+  test('lintGutterMarker() scrolls to the marker', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.waitForLintIdle();
+
+    const marker = await editor.lintGutterMarker(480);
+    await expect(marker).toBeVisible();
+    await expect(marker).toHaveClass(/cm-lint-marker-error/);
+  });
+
+  test('clickLintGutterMarker() clicks the marker', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.waitForLintIdle();
+
+    await editor.clickLintGutterMarker(10);
+    expect(await editor.isLineVisible(10)).toBe(true);
+  });
+
+  test('toHaveLintDiagnostic() fails with the received diagnostics', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.waitForLintIdle();
+
+    const error = await expect(editor)
+      .toHaveLintDiagnostic({ line: 2 }, { timeout: 500 })
+      .catch((e: Error) => e);
+    expect((error as Error).message).toContain('3:0 error: Unexpected var');
+  });
+
+  test('waitForLintIdle() throws for an editor without a linter', async ({ page }) => {
+    await page.goto('/editor.html');
+    const editor = CMEditor.from(page);
+    await expect(editor.waitForLintIdle()).rejects.toThrow('Lint plugin not found');
+  });
+});
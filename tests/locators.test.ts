@@ -110,6 +110,39 @@ test.describe('CMEditor locators (large file)', () => {
     await expect(line).toBeVisible();
   });
 
+  test('scrollToTextAndLocate() finds and scrolls to a virtualized line', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const line = await editor.scrollToTextAndLocate('// Line 900:');
+
+    await expect(line).toBeVisible();
+    await expect(line).toHaveText('// Line 900: This is line number 900 with some content');
+    expect(await editor.isLineVisible(900)).toBe(true);
+  });
+
+  test('scrollToTextAndLocate() picks the nth match', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const line = await editor.scrollToTextAndLocate(/number 7\d\d /, { nth: 2 });
+    await expect(line).toContainText('// Line 702:');
+
+    await expect(editor.scrollToTextAndLocate('missing text')).rejects.toThrow(
+      'Text "missing text" not found in the document'
+    );
+    await expect(editor.scrollToTextAndLocate('// End of file', { nth: 1 })).rejects.toThrow(
+      'Match #1 of "// End of file" is out of range (1 matching lines, nth is 0-based)'
+    );
+  });
+
+  test('scrollToTextAndLocate() counts a line with several matches once', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    // Line 42 is the only line with the number 42, which it contains twice
+    await expect(editor.scrollToTextAndLocate(/\b42\b/, { nth: 1 })).rejects.toThrow(
+      'Match #1 of /\\b42\\b/ is out of range (1 matching lines, nth is 0-based)'
+    );
+  });
+
   test('lineInDOMContaining() does NOT find text in virtualized lines', async ({ page }) => {
     const editor = CMEditor.from(page);
     // The large file has unique text on line 900: "// Line 900"
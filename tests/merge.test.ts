@@ -0,0 +1,115 @@
+import { test } from '@playwright/test';
+import { CMMergeView, expect } from '../src/index.js';
+
+test.describe('CMMergeView (@codemirror/merge)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/merge.html');
+    await page.waitForSelector('.cm-mergeView');
+  });
+
+  test('a and b are CMEditor instances for both documents', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+
+    await expect(merge.a).toHaveLineText(10, 'Line 10: original');
+    await expect(merge.b).toHaveLineText(10, 'Line 10: edited');
+    await expect(merge.a).toHaveDocumentLineCount(120);
+    await expect(merge.b).toHaveDocumentLineCount(121);
+  });
+
+  test('chunks() returns line ranges on both sides', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+    const chunks = await merge.chunks();
+
+    expect(chunks.map(({ a, b }) => ({ a, b }))).toEqual([
+      { a: { first: 10, last: 10 }, b: { first: 10, last: 10 } },
+      { a: null, b: { first: 41, last: 42 } },
+      { a: { first: 80, last: 80 }, b: null },
+      { a: { first: 118, last: 118 }, b: { first: 119, last: 119 } },
+    ]);
+  });
+
+  test('toHaveChunkCount() and toHaveChunk() check the chunks', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+
+    await expect(merge).toHaveChunkCount(4);
+    await expect(merge).toHaveChunk({ a: null, b: { first: 41, last: 42 } });
+    await expect(merge).toHaveChunk({ a: { first: 80, last: 80 } });
+    await expect(merge).not.toHaveChunk({ b: { first: 1, last: 1 } }, { timeout: 500 });
+  });
+
+  test('goToNextChunk() moves through the chunks and wraps around', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+
+    expect(await merge.goToNextChunk()).toBe(0);
+    await expect(merge.b).toHaveCursorAt({ line: 10, col: 0 });
+    expect(await merge.goToNextChunk()).toBe(1);
+    await expect(merge.b).toHaveCursorAt({ line: 41, col: 0 });
+    expect(await merge.goToNextChunk()).toBe(2);
+    expect(await merge.goToNextChunk()).toBe(3);
+    expect(await merge.goToNextChunk()).toBe(0);
+    expect(await merge.goToPreviousChunk()).toBe(3);
+    await expect(merge.b).toHaveCursorAt({ line: 119, col: 0 });
+  });
+
+  test('acceptChunk() copies B into A', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+
+    await merge.acceptChunk(1);
+
+    await expect(merge).toHaveChunkCount(3);
+    await expect(merge.a).toHaveLineText(41, 'Inserted A');
+    await expect(merge.a).toHaveDocumentLineCount(122);
+  });
+
+  test('rejectChunk() restores A in B', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+
+    await merge.rejectChunk(0);
+
+    await expect(merge).toHaveChunkCount(3);
+    await expect(merge.b).toHaveLineText(10, 'Line 10: original');
+    await expect(merge.rejectChunk(5)).rejects.toThrow(
+      'Chunk 5 is out of range (merge view has 3 chunks)'
+    );
+  });
+
+  test('revertControl() scrolls to the chunk and returns its button', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+
+    const control = await merge.revertControl(3);
+    await control.click();
+
+    await expect(merge).toHaveChunkCount(3);
+    await expect(merge.b).toHaveLineText(119, 'Line 118: original');
+  });
+
+  test('collapsedRegions() lists collapsed unchanged lines on both sides', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+    const regions = await merge.collapsedRegions();
+
+    expect(regions.filter((r) => r.side === 'a').map((r) => r.lines)).toEqual([
+      { first: 1, last: 6 },
+      { first: 14, last: 37 },
+      { first: 44, last: 76 },
+      { first: 84, last: 114 },
+    ]);
+    expect(regions.filter((r) => r.side === 'b')).toHaveLength(4);
+  });
+
+  test('expandCollapsed() expands one region or all of them', async ({ page }) => {
+    const merge = CMMergeView.from(page);
+
+    await merge.expandCollapsed({ line: 50 });
+    const regions = await merge.collapsedRegions();
+    expect(regions.some((r) => r.lines.first === 44)).toBe(false);
+    expect(regions.filter((r) => r.side === 'a')).toHaveLength(3);
+
+    await merge.expandCollapsed();
+    expect(await merge.collapsedRegions()).toEqual([]);
+    await expect(merge.collapsedLines).toHaveCount(0);
+
+    await expect(merge.expandCollapsed({ line: 50 })).rejects.toThrow(
+      'Line 50 (side a) is not in a collapsed region'
+    );
+  });
+});
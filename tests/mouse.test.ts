@@ -0,0 +1,146 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor mouse input (large file)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/large-editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('clickAt() scrolls to the position and puts the cursor there', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    expect(await editor.isLineRendered(500)).toBe(false);
+
+    await editor.clickAt({ line: 500, col: 8 });
+
+    await expect(editor).toHaveCursorAt({ line: 500, col: 8 });
+    await expect(editor.content).toBeFocused();
+    expect(await editor.isLineVisible(500)).toBe(true);
+  });
+
+  test('clickAt() reaches the line end', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const length = (await editor.lineText(30)).length;
+
+    await editor.clickAt({ line: 30, col: length });
+    await expect(editor).toHaveCursorAt({ line: 30, col: length });
+  });
+
+  test('clickAt() with clickCount selects words and lines', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    // Line 10: "// Line 10: This is line number 10 with some content"
+    await editor.clickAt({ line: 10, col: 27 }, { clickCount: 2 });
+    let { ranges } = await editor.selection();
+    expect(await editor.textInRange(ranges[0])).toBe('number');
+
+    await editor.clickAt({ line: 10, col: 27 }, { clickCount: 3 });
+    ({ ranges } = await editor.selection());
+    expect(await editor.textInRange(ranges[0])).toBe(`${await editor.lineText(10)}\n`);
+  });
+
+  test('clickAt() with Shift extends the selection', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.clickAt({ line: 3, col: 0 });
+    await editor.clickAt({ line: 6, col: 5 }, { modifiers: ['Shift'] });
+
+    await expect(editor).toHaveSelection({
+      anchor: { line: 3, col: 0 },
+      head: { line: 6, col: 5 },
+    });
+  });
+
+  test('dragSelect() selects between two positions', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.dragSelect({ line: 4, col: 3 }, { line: 8, col: 10 });
+
+    await expect(editor).toHaveSelection({
+      anchor: { line: 4, col: 3 },
+      head: { line: 8, col: 10 },
+    });
+  });
+
+  test('dragSelect() scrolls to a target outside the viewport', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.dragSelect({ line: 600, col: 10 }, { line: 5, col: 3 });
+
+    await expect(editor).toHaveSelection({
+      anchor: { line: 600, col: 10 },
+      head: { line: 5, col: 3 },
+    });
+    expect(await editor.isLineVisible(5)).toBe(true);
+  });
+
+  test('clickLineNumber() selects the whole line', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.clickLineNumber(700);
+
+    await expect(editor).toHaveSelection({
+      anchor: { line: 700, col: 0 },
+      head: { line: 701, col: 0 },
+    });
+    expect(await editor.isLineVisible(700)).toBe(true);
+  });
+
+  test('clickLineNumber() selects the last line up to its end', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.clickLineNumber(1000);
+
+    await expect(editor).toHaveSelection({
+      anchor: { line: 1000, col: 0 },
+      head: { line: 1000, col: 14 },
+    });
+  });
+
+  test('clickLineNumber() throws when the gutter click does not select the line', async ({
+    page,
+  }) => {
+    await page.goto('/rectangular.html');
+    await page.waitForSelector('.cm-editor');
+    const editor = CMEditor.from(page);
+
+    await expect(editor.clickLineNumber(3)).rejects.toThrow(
+      'Clicking line number 3 did not select the line'
+    );
+  });
+
+  test('mouse methods validate positions', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(editor.clickAt({ line: 2000, col: 0 })).rejects.toThrow(
+      'Line 2000 is out of range (document has 1000 lines)'
+    );
+    await expect(editor.dragSelect({ line: 1, col: 0 }, { line: 1, col: 500 })).rejects.toThrow(
+      /Column 500 is out of range/
+    );
+    await expect(editor.clickAt({ line: 0, col: 0 })).rejects.toThrow(
+      'Line number must be >= 1, got 0'
+    );
+  });
+});
+
+test.describe('CMEditor mouse input (rectangular selection)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/rectangular.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('dragSelect() with rectangular makes a block selection', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.dragSelect({ line: 2, col: 3 }, { line: 5, col: 7 }, { rectangular: true });
+
+    await expect(editor).toHaveSelectionCount(4);
+    await expect(editor).toHaveSelection(
+      [2, 3, 4, 5].map((line) => ({
+        anchor: { line, col: 3 },
+        head: { line, col: 7 },
+      }))
+    );
+  });
+});
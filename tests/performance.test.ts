@@ -0,0 +1,66 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor performance measurement (large file)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/large-editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('measure() times update and measure cycles', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const report = await editor.measure(async () => {
+      await editor.insertAt({ line: 1, col: 0 }, 'inserted ');
+    });
+
+    expect(report.updates.count).toBeGreaterThanOrEqual(1);
+    expect(report.measures.count).toBeGreaterThanOrEqual(1);
+    expect(report.updates.maxTime).toBeLessThanOrEqual(report.updates.totalTime);
+    expect(report.duration).toBeGreaterThan(0);
+    expect(report.layoutCount).toEqual(expect.any(Number));
+  });
+
+  test('measure() counts rendered lines before and after scrolling', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const report = await editor.measure(async () => {
+      await editor.scrollToLine(800);
+    });
+
+    expect(report.linesBefore).toBeGreaterThan(0);
+    expect(report.linesAfter).toBeGreaterThan(0);
+    expect(report.maxLines).toBeGreaterThanOrEqual(report.linesAfter);
+    expect(await editor.isLineVisible(800)).toBe(true);
+
+    expect(report).toRenderAtMostLines(200);
+    expect(report).not.toRenderAtMostLines(0);
+    expect(report).toCompleteWithin(5000);
+    expect(report).toCompleteWithin(5000, { time: 'wall' });
+    expect(report).not.toCompleteWithin(0, { time: 'wall' });
+  });
+
+  test('toCompleteWithin() checks editor time unless asked for wall time', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    // Waiting outside the editor counts towards wall time only
+    const report = await editor.measure(() => page.waitForTimeout(300));
+
+    expect(report.updates.count).toBe(0);
+    expect(report).toCompleteWithin(100);
+    expect(report).not.toCompleteWithin(100, { time: 'wall' });
+  });
+
+  test('measure() restores the view when the action throws', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(
+      editor.measure(async () => {
+        throw new Error('Action failed');
+      })
+    ).rejects.toThrow('Action failed');
+
+    const report = await editor.measure(async () => {});
+    expect(report.updates.count).toBe(0);
+  });
+});
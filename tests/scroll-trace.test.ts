@@ -0,0 +1,65 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor scroll recording (large file)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/large-editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('recordScroll() records scroll events and frames', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const trace = await editor.recordScroll(async () => {
+      await editor.scrollTo({ scrollTop: 2000 }, { waitForIdle: false });
+    });
+
+    expect(trace.events.length).toBeGreaterThan(0);
+    expect(trace.frames.length).toBeGreaterThan(0);
+    expect(trace.duration).toBeGreaterThan(0);
+    expect(trace.monotonic).toBe(true);
+
+    const last = trace.frames[trace.frames.length - 1];
+    expect(last.scrollTop).toBeCloseTo(2000, 0);
+    expect(last.renderedLines.first).toBeLessThanOrEqual(last.visibleLines.first);
+    expect(last.renderedLines.last).toBeGreaterThanOrEqual(last.visibleLines.last);
+    expect(await editor.isLineVisible(last.visibleLines.first + 1)).toBe(true);
+  });
+
+  test('recordScroll() follows smooth scrolling without blank frames', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const trace = await editor.recordScroll(async () => {
+      await editor.scroller.evaluate((el) => el.scrollTo({ top: 6000, behavior: 'smooth' }));
+    });
+
+    expect(trace.monotonic).toBe(true);
+    expect(trace.frames[trace.frames.length - 1].scrollTop).toBeCloseTo(6000, 0);
+    expect(trace.blankFrames).toEqual([]);
+    expect(trace.maxFrameGap).toBeLessThan(500);
+  });
+
+  test('recordScroll() detects a change of direction', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    const trace = await editor.recordScroll(async () => {
+      await editor.scrollTo({ scrollTop: 2000 });
+      await editor.scrollTo({ scrollTop: 1000 });
+    });
+
+    expect(trace.monotonic).toBe(false);
+  });
+
+  test('recordScroll() stops recording when the action throws', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(
+      editor.recordScroll(async () => {
+        throw new Error('Action failed');
+      })
+    ).rejects.toThrow('Action failed');
+
+    const trace = await editor.recordScroll(async () => {});
+    expect(trace.events).toEqual([]);
+  });
+});
@@ -1,4 +1,4 @@
-import { test } from '@playwright/test';
+import { test, type Page } from '@playwright/test';
 import { CMEditor, expect } from '../src/index.js';
 
 test.describe('CMEditor scroll methods', () => {
@@ -85,6 +85,78 @@ test.describe('CMEditor scroll methods (large file)', () => {
     await expect(line).toContainText('// Line 75');
   });
 
+  test.describe('toKeepViewportStableDuring()', () => {
+    test('passes when lines are inserted above the viewport', async ({ page }) => {
+      const editor = CMEditor.from(page);
+      await editor.scrollToLine(500);
+
+      await expect(editor).toKeepViewportStableDuring(async () => {
+        await editor.insertAt({ line: 1, col: 0 }, '// Remote edit\n'.repeat(20));
+      });
+      await expect(editor).toHaveFirstVisibleLine(520, { tolerance: 1 });
+    });
+
+    test('passes when lines are removed above the viewport', async ({ page }) => {
+      const editor = CMEditor.from(page);
+      await editor.scrollToLine(500);
+
+      await expect(editor).toKeepViewportStableDuring(async () => {
+        await editor.deleteLines(10, 29);
+      });
+    });
+
+    test('fails when the visible text jumps', async ({ page }) => {
+      const editor = CMEditor.from(page);
+      await editor.scrollToLine(500);
+
+      await expect(editor).not.toKeepViewportStableDuring(async () => {
+        await editor.scrollBy({ scrollTop: 120 });
+      });
+      await expect(
+        expect(editor).toKeepViewportStableDuring(async () => {
+          await editor.scrollBy({ scrollTop: -120 });
+        })
+      ).rejects.toThrow(/moved 120px\)\nTolerance: 1/);
+    });
+
+    test('restores the view when the action throws', async ({ page }) => {
+      const editor = CMEditor.from(page);
+
+      await expect(
+        expect(editor).toKeepViewportStableDuring(async () => {
+          throw new Error('Action failed');
+        })
+      ).rejects.toThrow('Action failed');
+      await expect(editor).toKeepViewportStableDuring(async () => {});
+    });
+
+    test('rejects a nested anchor and reports the action error', async ({ page }) => {
+      const editor = CMEditor.from(page);
+
+      await expect(
+        expect(editor).toKeepViewportStableDuring(async () => {
+          await expect(editor).toKeepViewportStableDuring(async () => {});
+        })
+      ).rejects.toThrow('A viewport anchor is already active for this editor');
+      await expect(editor).toKeepViewportStableDuring(async () => {});
+    });
+
+    test('works inside measure()', async ({ page }) => {
+      const editor = CMEditor.from(page);
+      await editor.scrollToLine(500);
+
+      const report = await editor.measure(async () => {
+        await expect(editor).toKeepViewportStableDuring(async () => {
+          await editor.insertAt({ line: 1, col: 0 }, '// Remote edit\n'.repeat(20));
+        });
+      });
+      expect(report.updates.count).toBeGreaterThan(0);
+      await expect(editor).toKeepViewportStableDuring(async () => {
+        await editor.insertAt({ line: 1, col: 0 }, '// Remote edit\n'.repeat(20));
+      });
+    });
+  });
+
   test.describe('scrollToLine() position tests', () => {
     test('{ position: "top" } - target line at scroller top', async ({ page }) => {
       const editor = CMEditor.from(page);
@@ -145,3 +217,132 @@ test.describe('CMEditor scroll methods (large file)', () => {
     });
   });
 });
+
+/**
+ * Caret geometry of a position relative to the visible text area
+ * (right of the gutters, inside the scrollbars).
+ */
+async function caretOffset(page: Page, line: number, col: number) {
+  return page.evaluate(
+    ({ line, col }) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const view = (window as any).editor;
+      const coords = view.coordsAtPos(view.state.doc.line(line).from + col);
+      const scroller = view.scrollDOM as HTMLElement;
+      const rect = scroller.getBoundingClientRect();
+      const gutters = view.dom.querySelector('.cm-gutters') as HTMLElement;
+      return {
+        x: coords.left - (rect.left + gutters.offsetWidth),
+        top: coords.top - rect.top,
+        bottom: coords.bottom - rect.top,
+        width: scroller.clientWidth - gutters.offsetWidth,
+        height: scroller.clientHeight,
+      };
+    },
+    { line, col }
+  );
+}
+
+test.describe('CMEditor position scrolling (long lines)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/long-lines.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('scrollToPosition() scrolls a minified line horizontally', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.scrollToPosition({ line: 150, col: 5000 }, { x: 'start' });
+
+    expect((await editor.scrollPosition()).scrollLeft).toBeGreaterThan(0);
+    const caret = await caretOffset(page, 150, 5000);
+    expect(Math.abs(caret.x)).toBeLessThanOrEqual(2);
+    expect(Math.abs(caret.top)).toBeLessThanOrEqual(3);
+  });
+
+  test('scrollToPosition() places the column at the center or end', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.scrollToPosition({ line: 150, col: 3000 }, { x: 'center' });
+    let caret = await caretOffset(page, 150, 3000);
+    expect(Math.abs(caret.x - caret.width / 2)).toBeLessThanOrEqual(2);
+
+    await editor.scrollToPosition({ line: 150, col: 3000 }, { x: 'end' });
+    caret = await caretOffset(page, 150, 3000);
+    expect(Math.abs(caret.x - caret.width)).toBeLessThanOrEqual(2);
+  });
+
+  test('scrollToPosition() keeps the margin from the edge', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.scrollToPosition({ line: 20, col: 400 }, { x: 'start', margin: 40 });
+
+    const caret = await caretOffset(page, 20, 400);
+    expect(Math.abs(caret.x - 40)).toBeLessThanOrEqual(2);
+  });
+
+  test('scrollToPosition() positions the line vertically', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    // Like scrollToLine, 'center' puts the line's top at the middle
+    await editor.scrollToPosition({ line: 200, col: 0 }, { y: 'center' });
+    let caret = await caretOffset(page, 200, 0);
+    expect(Math.abs(caret.top - caret.height / 2)).toBeLessThanOrEqual(3);
+
+    await editor.scrollToPosition({ line: 200, col: 0 }, { y: 'bottom' });
+    caret = await caretOffset(page, 200, 0);
+    expect(Math.abs(caret.bottom - caret.height)).toBeLessThanOrEqual(3);
+
+    await editor.scrollToPosition({ line: 100, col: 0 }, { y: 0.25 });
+    caret = await caretOffset(page, 100, 0);
+    expect(Math.abs(caret.top - caret.height * 0.25)).toBeLessThanOrEqual(3);
+
+    await editor.scrollToPosition({ line: 100, col: 0 }, { y: 0.25, margin: 20 });
+    caret = await caretOffset(page, 100, 0);
+    expect(Math.abs(caret.top - (caret.height * 0.25 + 20))).toBeLessThanOrEqual(3);
+  });
+
+  test('scrollToPosition() puts the column at the start by default', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.scrollToPosition({ line: 60, col: 300 });
+
+    const caret = await caretOffset(page, 60, 300);
+    expect(Math.abs(caret.x)).toBeLessThanOrEqual(2);
+  });
+
+  test("scrollToPosition() with x: 'nearest' only scrolls when needed", async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.scrollToPosition({ line: 60, col: 3 }, { x: 'nearest' });
+
+    expect((await editor.scrollPosition()).scrollLeft).toBe(0);
+    expect(await editor.isLineVisible(60)).toBe(true);
+  });
+
+  test('scrollToColumn() scrolls horizontally and back', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.scrollToColumn(300, { line: 5 });
+    const caret = await caretOffset(page, 5, 300);
+    expect(Math.abs(caret.x)).toBeLessThanOrEqual(2);
+    const { scrollTop } = await editor.scrollPosition();
+
+    await editor.scrollToColumn(0);
+    expect(await editor.scrollPosition()).toEqual({ scrollTop, scrollLeft: 0 });
+  });
+
+  test('scrollToPosition() and scrollToColumn() validate positions', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(editor.scrollToPosition({ line: 400, col: 0 })).rejects.toThrow(
+      'Line 400 is out of range (document has 300 lines)'
+    );
+    await expect(editor.scrollToColumn(5000, { line: 10 })).rejects.toThrow(
+      'Column 5000 is out of range (line 10 has 700 characters)'
+    );
+    await expect(editor.scrollToPosition({ line: 10, col: 0 }, { y: -0.5 })).rejects.toThrow(
+      'Vertical position must be between 0 and 1, got -0.5'
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor search panel (large file)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/large-editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('openSearchPanel() and closeSearchPanel() toggle the panel', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.openSearchPanel();
+    await expect(editor.searchPanel).toBeVisible();
+
+    await editor.closeSearchPanel();
+    await expect(editor.searchPanel).toHaveCount(0);
+  });
+
+  test('searchMatches() includes matches outside the viewport', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.searchFor('line number 99');
+
+    const matches = await editor.searchMatches();
+    // "line number 99" and "line number 990" to "line number 999"
+    expect(matches.map((m) => m.line)).toEqual([
+      99, 990, 991, 992, 993, 994, 995, 996, 997, 998, 999,
+    ]);
+    expect(matches[0]).toMatchObject({ col: 20, text: 'line number 99' });
+    expect(await editor.isLineRendered(990)).toBe(false);
+  });
+
+  test('searchMatches() uses the committed query, not the panel input', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.searchFor('line number 99');
+
+    // Setting the value without an input event doesn't commit it
+    await editor.searchPanel
+      .locator('input[name=search]')
+      .evaluate((input: HTMLInputElement) => (input.value = 'line number 5'));
+    await expect(editor).toHaveSearchMatches(11);
+  });
+
+  test('searchFor() applies case, regexp and whole-word options', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await editor.searchFor('LINE 5:');
+    await expect(editor).toHaveSearchMatches(1);
+
+    await editor.searchFor('LINE 5:', { caseSensitive: true });
+    await expect(editor).toHaveSearchMatches(0);
+
+    await editor.searchFor('^// Line \\d{3}:', { regexp: true });
+    await expect(editor).toHaveSearchMatches(900);
+
+    await editor.searchFor('number 5', { wholeWord: true });
+    await expect(editor).toHaveSearchMatches(1);
+  });
+
+  test('findNext() and findPrevious() move the selection', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.searchFor('number 500 ');
+
+    await editor.findNext();
+    const [match] = await editor.searchMatches();
+    await expect(editor).toHaveSelection({ anchor: match.from, head: match.to });
+    expect(await editor.isLineVisible(500, true)).toBe(true);
+
+    await editor.findPrevious();
+    await expect(editor).toHaveSelection({ anchor: match.from, head: match.to });
+  });
+
+  test('replaceNext() and replaceAll() edit the document', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.searchFor('with some content', { replace: 'edited' });
+
+    await editor.findNext();
+    await editor.replaceNext();
+    await expect(editor).toHaveSearchMatches(997);
+
+    await editor.replaceAll();
+    await expect(editor).toHaveSearchMatches(0);
+    await expect(editor).toHaveLineText(900, '// Line 900: This is line number 900 edited');
+  });
+
+  test('searchMatches() throws when the panel is closed', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await expect(editor.searchMatches()).rejects.toThrow('Search panel is not open');
+  });
+});
@@ -0,0 +1,66 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor selection', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('selection() starts as a single cursor at the document start', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const selection = await editor.selection();
+    expect(selection.mainIndex).toBe(0);
+    expect(selection.ranges).toHaveLength(1);
+    expect(selection.ranges[0]).toMatchObject({
+      anchor: 0,
+      head: 0,
+      empty: true,
+      headPosition: { line: 1, col: 0 },
+    });
+  });
+
+  test('setSelection() accepts line/column positions', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setSelection({ anchor: { line: 2, col: 7 }, head: { line: 2, col: 15 } });
+
+    const { ranges } = await editor.selection();
+    expect(await editor.textInRange(ranges[0])).toBe('function');
+    await expect(editor).toHaveSelection({
+      anchor: { line: 2, col: 7 },
+      head: { line: 2, col: 15 },
+    });
+  });
+
+  test('setSelection() with multiple ranges creates multiple cursors', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setSelection(
+      [
+        { anchor: { line: 3, col: 2 } },
+        { anchor: { line: 4, col: 2 } },
+        { anchor: { line: 5, col: 2 } },
+      ],
+      { mainIndex: 2 }
+    );
+
+    await expect(editor).toHaveSelectionCount(3);
+    await expect(editor).toHaveCursorAt({ line: 5, col: 2 });
+    const selection = await editor.selection();
+    expect(selection.mainIndex).toBe(2);
+  });
+
+  test('toHaveCursorAt() follows keyboard movement', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await editor.setSelection({ anchor: { line: 1, col: 0 } }, { focus: true });
+    await page.keyboard.press('End');
+    await expect(editor).toHaveCursorAt({ line: 1, col: 13 });
+  });
+
+  test('setSelection() throws for points outside the document', async ({ page }) => {
+    const editor = CMEditor.from(page, { nth: 1 });
+    await expect(editor.setSelection({ anchor: { line: 50, col: 0 } })).rejects.toThrow(
+      'Line 50 is out of range'
+    );
+    await expect(editor.setSelection({ anchor: 100000 })).rejects.toThrow('out of bounds');
+  });
+});
@@ -0,0 +1,98 @@
+import { test, type Page } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor snapshots', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  function diffEditor(page: Page): CMEditor {
+    const editor = CMEditor.withIsolatedRegistry(page, { nth: 1 });
+    editor.getRegistry().register('diff', {
+      lineAddition: 'cm-diff-line-addition',
+      lineDeletion: 'cm-diff-line-deletion',
+    });
+    return editor;
+  }
+
+  test('snapshot() serializes document, selection, folds and extensions', async ({ page }) => {
+    const editor = diffEditor(page);
+    await editor.setSelection({ anchor: { line: 2, col: 0 }, head: { line: 2, col: 5 } });
+
+    const snapshot = await editor.snapshot({ viewport: false });
+
+    expect(snapshot).toContain('Document (13 lines):\n 1 | Line 1: Hello\n');
+    expect(snapshot).toContain('13 | Line 13: End\n\nSelection: 2:0-2:5 (main)\n');
+    expect(snapshot).toContain('Folded: none\n');
+    expect(snapshot).toContain(
+      'Extensions:\n  diff.lineAddition: 5-7\n  diff.lineDeletion: 10-12\n'
+    );
+    expect(snapshot).not.toContain('Viewport:');
+  });
+
+  test('snapshot() includes the visible line range', async ({ page }) => {
+    const editor = CMEditor.withIsolatedRegistry(page);
+    await editor.scrollToLine(40);
+
+    const snapshot = await editor.snapshot();
+
+    expect(snapshot).toContain('Extensions: none\n');
+    expect(snapshot).toMatch(/\nViewport: (39|40)-\d+\n$/);
+  });
+
+  test('snapshot() can leave out extensions', async ({ page }) => {
+    const editor = diffEditor(page);
+
+    const snapshot = await editor.snapshot({ extensions: false, viewport: false });
+    expect(snapshot).not.toContain('Extensions');
+    expect(snapshot.endsWith('Folded: none\n')).toBe(true);
+  });
+
+  test('snapshot() can limit or leave out the document', async ({ page }) => {
+    const editor = diffEditor(page);
+
+    const range = await editor.snapshot({ document: { first: 9, last: 11 }, viewport: false });
+    expect(range).toContain(
+      'Document (13 lines, showing 9-11):\n 9 | Line 9: Normal\n10 | Line 10: Removed\n' +
+        '11 | Line 11: Removed\n\nSelection:'
+    );
+
+    const none = await editor.snapshot({ document: false, viewport: false });
+    expect(none.startsWith('Selection: 1:0 (main)\n')).toBe(true);
+
+    await expect(editor.snapshot({ document: { first: 10, last: 20 } })).rejects.toThrow(
+      'Snapshot lines 10-20 are out of range (document has 13 lines)'
+    );
+  });
+
+  test('toMatchEditorSnapshot() compares with the stored snapshot file', async ({ page }) => {
+    const editor = diffEditor(page);
+    await editor.setSelection({ anchor: { line: 2, col: 0 }, head: { line: 2, col: 5 } });
+
+    await expect(editor).toMatchEditorSnapshot({ name: 'diff-editor.txt', viewport: false });
+  });
+
+  test('toMatchEditorSnapshot() rejects .not', async ({ page }) => {
+    const editor = diffEditor(page);
+
+    await expect(
+      expect(editor).not.toMatchEditorSnapshot({ name: 'not-written.txt', viewport: false })
+    ).rejects.toThrow('toMatchEditorSnapshot() does not support .not');
+  });
+});
+
+test.describe('CMEditor snapshots (folding)', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/folding.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('snapshot() lists folded ranges', async ({ page }) => {
+    const editor = CMEditor.withIsolatedRegistry(page);
+    await editor.foldLines(1, 15);
+
+    const snapshot = await editor.snapshot({ viewport: false });
+    expect(snapshot).toContain('Folded: 1-15\n');
+  });
+});
@@ -0,0 +1,85 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor state notation', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/editor.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('setState() places the cursor at the marker', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setState('function f() {|}\n');
+
+    expect(await editor.text()).toBe('function f() {}\n');
+    await expect(editor).toHaveCursorAt({ line: 1, col: 14 });
+    await expect(editor).toMatchState('function f() {|}\n');
+  });
+
+  test('setState() sets forward, backward and multiple ranges', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setState('const <a> = 1;\nconst >b< = 2;|');
+
+    await expect(editor).toHaveSelection([
+      { anchor: 6, head: 7 },
+      { anchor: 20, head: 19 },
+      { anchor: 25 },
+    ]);
+    expect(await editor.stateNotation()).toBe('const <a> = 1;\nconst >b< = 2;|');
+  });
+
+  test('setState() without markers puts the cursor at the start', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setState('plain text');
+
+    await expect(editor).toMatchState('|plain text');
+  });
+
+  test('toMatchState() follows typing', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setState('const |x = 1;', { focus: true });
+
+    await page.keyboard.type('ab');
+    await expect(editor).toMatchState('const ab|x = 1;');
+    await expect(editor).not.toMatchState('const |abx = 1;', { timeout: 500 });
+  });
+
+  test('custom markers handle documents that contain the default ones', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const markers = { cursor: '^', anchor: '[[', head: ']]' };
+    await editor.setState('if (a < b || [[c > d]]) {^}', { markers });
+
+    expect(await editor.text()).toBe('if (a < b || c > d) {}');
+    await expect(editor).toMatchState('if (a < b || [[c > d]]) {^}', { markers });
+    expect(await editor.stateNotation({ markers })).toBe('if (a < b || [[c > d]]) {^}');
+  });
+
+  test('toMatchState() shows a diff of notation strings on failure', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await editor.setState('function f() {\n  return 1;|\n}');
+
+    let message = '';
+    try {
+      await expect(editor).toMatchState('function f() {\n  |return 1;\n}', { timeout: 500 });
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    expect(message).toContain('Expected editor state to match:');
+    expect(message).toContain('-   |return 1;');
+    expect(message).toContain('+   return 1;|');
+  });
+
+  test('unbalanced markers are rejected', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(editor.setState('const <a = 1;')).rejects.toThrow(
+      'Selection at offset 6 is not closed with ">"'
+    );
+    await expect(editor.setState('<a|b>')).rejects.toThrow(
+      'Cursor marker "|" at offset 1 is inside a selection'
+    );
+    await expect(expect(editor).toMatchState('no markers')).rejects.toThrow(
+      'Expected state has no selection markers'
+    );
+  });
+});
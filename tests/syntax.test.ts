@@ -0,0 +1,87 @@
+import { test } from '@playwright/test';
+import { CMEditor, expect } from '../src/index.js';
+
+test.describe('CMEditor syntax inspection', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/syntax.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  test('tokensOnLine() returns highlighted spans with offsets', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const tokens = await editor.tokensOnLine(1);
+
+    // Line 1: const greeting = "hello";
+    expect(tokens.find((t) => t.text === 'const')).toMatchObject({
+      from: 0,
+      to: 5,
+      col: 0,
+      classes: ['tok-keyword'],
+    });
+    expect(tokens.find((t) => t.text === 'greeting')?.classes).toEqual([
+      'tok-variableName',
+      'tok-definition',
+    ]);
+    expect(tokens.find((t) => t.text === '"hello"')).toMatchObject({ col: 17 });
+  });
+
+  test('tokensOnLine() scrolls to lines that are not rendered', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    expect(await editor.isLineRendered(300)).toBe(false);
+
+    const tokens = await editor.tokensOnLine(300);
+    expect(tokens.find((t) => t.text === '"end"')?.classes).toContain('tok-string');
+  });
+
+  test('toHaveTokenClass() checks the token at a position', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(editor).toHaveTokenClass({ line: 1, col: 2 }, 'tok-keyword');
+    await expect(editor).toHaveTokenClass({ line: 2, col: 5 }, 'tok-comment');
+    await expect(editor).toHaveTokenClass({ line: 3, col: 10 }, 'tok-definition');
+    await expect(editor).not.toHaveTokenClass({ line: 1, col: 2 }, 'tok-string', {
+      timeout: 500,
+    });
+  });
+
+  test('syntaxNodeAt() returns the node and its ancestry', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const node = await editor.syntaxNodeAt({ line: 3, col: 15 });
+
+    expect(node).toEqual({
+      name: 'VariableDefinition',
+      from: expect.any(Number),
+      to: expect.any(Number),
+      text: 'name',
+      ancestors: ['ParamList', 'FunctionDeclaration', 'Script'],
+    });
+  });
+
+  test('syntaxNodeAt() reads lines outside the viewport', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    const node = await editor.syntaxNodeAt({ line: 300, col: 13 });
+
+    expect(node.name).toBe('String');
+    expect(node.ancestors[0]).toBe('ArgList');
+    expect(await editor.isLineRendered(300)).toBe(false);
+  });
+
+  test('toHaveSyntaxNodeAt() matches a name or a path', async ({ page }) => {
+    const editor = CMEditor.from(page);
+
+    await expect(editor).toHaveSyntaxNodeAt({ line: 1, col: 18 }, 'String');
+    await expect(editor).toHaveSyntaxNodeAt({ line: 2, col: 0 }, ['LineComment', 'Script']);
+    await expect(editor).toHaveSyntaxNodeAt({ line: 1, col: 6 }, [
+      'VariableDefinition',
+      'VariableDeclaration',
+    ]);
+    await expect(editor).not.toHaveSyntaxNodeAt({ line: 1, col: 6 }, 'String', { timeout: 500 });
+  });
+
+  test('syntaxNodeAt() validates the position', async ({ page }) => {
+    const editor = CMEditor.from(page);
+    await expect(editor.syntaxNodeAt({ line: 1, col: 100 })).rejects.toThrow(
+      'Column 100 is out of range (line 1 has 25 characters)'
+    );
+  });
+});
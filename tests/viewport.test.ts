@@ -141,4 +141,91 @@ test.describe('CMEditor viewport queries (large file)', () => {
       expect(isVisible).toBe(false);
     });
   });
+
+  test.describe('viewport matchers', () => {
+    test('toHaveLineVisible() waits for a line to scroll into view', async ({ page }) => {
+      const editor = CMEditor.from(page);
+      await expect(editor).not.toHaveLineVisible(500, { timeout: 500 });
+
+      await page.evaluate(() => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const view = (window as any).editor;
+        const pos = view.state.doc.line(500).from;
+        setTimeout(() => {
+          view.dispatch({ effects: view.constructor.scrollIntoView(pos, { y: 'center' }) });
+        }, 300);
+      });
+
+      await expect(editor).toHaveLineVisible(500);
+      await expect(editor).toHaveLineVisible(500, { partial: true });
+    });
+
+    test('toHaveLinesInViewport() checks a whole range', async ({ page }) => {
+      const editor = CMEditor.from(page);
+      await editor.scrollToLine(100);
+
+      await expect(editor).toHaveLinesInViewport({ first: 100, last: 110 });
+      await expect(editor).not.toHaveLinesInViewport({ first: 90, last: 110 }, { timeout: 500 });
+    });
+
+    test('toHaveFirstVisibleLine() compares with a tolerance', async ({ page }) => {
+      const editor = CMEditor.from(page);
+      await editor.scrollToLine(300);
+
+      await expect(editor).toHaveFirstVisibleLine(300, { tolerance: 1 });
+      await expect(editor).not.toHaveFirstVisibleLine(310, { tolerance: 2, timeout: 500 });
+    });
+
+    test('viewport matcher failures report the viewport', async ({ page }) => {
+      const editor = CMEditor.from(page);
+
+      await expect(expect(editor).toHaveLineVisible(900, { timeout: 500 })).rejects.toThrow(
+        /Expected line 900 to be fully visible\nReceived viewport: \{"fullyVisible":\[\{"first":1,/
+      );
+      await expect(expect(editor).toHaveFirstVisibleLine(50, { timeout: 500 })).rejects.toThrow(
+        'Received first visible line: 1'
+      );
+    });
+  });
+});
+
+test.describe('CMEditor viewport queries without the default line-number gutter', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/line-numbers.html');
+    await page.waitForSelector('.cm-editor');
+  });
+
+  // nth 0 has no lineNumbers(), nth 1 formats numbers as n + 1000
+  for (const [nth, name] of [
+    [0, 'no gutter'],
+    [1, 'offset formatNumber'],
+  ] as const) {
+    test.describe(name, () => {
+      test('linesInViewport() reports document lines', async ({ page }) => {
+        const editor = CMEditor.from(page, { nth });
+        await editor.scrollToLine(150);
+
+        const info = await editor.linesInViewport();
+        expect(info.fullyVisible[0].first).toBe(150);
+        expect(info.partiallyVisible[0].last).toBeLessThan(170);
+      });
+
+      test('isLineRendered() and isLineVisible() use document lines', async ({ page }) => {
+        const editor = CMEditor.from(page, { nth });
+
+        expect(await editor.isLineRendered(1)).toBe(true);
+        expect(await editor.isLineVisible(1)).toBe(true);
+        expect(await editor.isLineRendered(280)).toBe(false);
+        expect(await editor.isLineVisible(280, true)).toBe(false);
+      });
+
+      test('scrollToLineAndLocate() returns the right line', async ({ page }) => {
+        const editor = CMEditor.from(page, { nth });
+        const line = await editor.scrollToLineAndLocate(240, { position: 'center' });
+
+        await expect(line).toHaveText(/ line 240$/);
+        expect(await editor.documentLineNumber(line)).toBe(240);
+      });
+    });
+  }
 });